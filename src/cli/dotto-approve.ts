@@ -0,0 +1,105 @@
+#!/usr/bin/env node
+/**
+ * Dotto Receipt Approval CLI
+ *
+ * Adds a named approver's signature to an authorization receipt. Receipts for changes
+ * matching policy rules with `approvals_required` only verify once enough distinct
+ * approvers have signed.
+ *
+ * Usage:
+ *   npx tsx src/cli/dotto-approve.ts --approver alice --key .dotto/keys/<kid>.pem
+ *   npx tsx src/cli/dotto-approve.ts --approver alice --key alice.pem --json
+ *
+ * Exit codes:
+ *   0 - Approval added
+ *   2 - Receipt missing or approval could not be created
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { AuthorizationReceipt, addApproval, formatReceiptForDisplay } from "../crypto/receipt.js";
+import { createKeySigner, loadPrivateKey } from "../crypto/signing.js";
+
+function getArgValue(flag: string): string | null {
+  const idx = process.argv.indexOf(flag);
+  if (idx === -1) return null;
+  const next = process.argv[idx + 1];
+  if (!next || next.startsWith("--")) return null;
+  return next;
+}
+
+const HELP_TEXT = `
+Dotto Receipt Approval CLI
+
+USAGE:
+  dotto-approve --approver <name> --key <path> [options]
+
+OPTIONS:
+  --approver <name>   Approver name, as registered with: dotto-keys generate --approver <name>
+  --key <path>        Approver's Ed25519/P-256 private key (default: DOTTO_APPROVER_KEY)
+  --receipt <path>    Receipt to approve (default: <artifacts>/authorization-receipt.json)
+  --artifacts <dir>   Directory containing authorization-receipt.json (default: artifacts)
+  --json              Print only the approval, e.g. to POST to /receipts/approve,
+                      instead of writing it into the receipt
+
+Approvals sign the same payload as the receipt, so any change to the receipt
+invalidates them.
+`;
+
+async function main(): Promise<number> {
+  if (process.argv.includes("--help") || process.argv.includes("-h")) {
+    process.stdout.write(HELP_TEXT);
+    return 0;
+  }
+
+  const approver = getArgValue("--approver");
+  const keyPath = getArgValue("--key") ?? process.env.DOTTO_APPROVER_KEY;
+  if (!approver || !keyPath) {
+    process.stderr.write(`--approver and --key are required\n${HELP_TEXT}`);
+    return 2;
+  }
+
+  const receiptPath = path.resolve(
+    getArgValue("--receipt") ??
+      path.join(getArgValue("--artifacts") ?? "artifacts", "authorization-receipt.json")
+  );
+
+  let receipt: AuthorizationReceipt;
+  try {
+    receipt = JSON.parse(await readFile(receiptPath, "utf8")) as AuthorizationReceipt;
+  } catch (err) {
+    process.stderr.write(
+      `Failed to load receipt ${receiptPath}: ${err instanceof Error ? err.message : String(err)}\n`
+    );
+    return 2;
+  }
+
+  // Approvals must be non-repudiable, so only asymmetric keys are accepted
+  const signer = createKeySigner(loadPrivateKey(path.resolve(keyPath)));
+  const approved = addApproval(receipt, approver, signer);
+
+  if (process.argv.includes("--json")) {
+    const approval = approved.approvals?.find((a) => a.approver === approver);
+    process.stdout.write(JSON.stringify(approval, null, 2) + "\n");
+    return 0;
+  }
+
+  await writeFile(receiptPath, JSON.stringify(approved, null, 2) + "\n", "utf8");
+  process.stdout.write(`\n  ✅ Approved by ${approver} (key ${signer.kid})\n\n`);
+  process.stdout.write(
+    formatReceiptForDisplay(approved)
+      .split("\n")
+      .map((line) => `  ${line}`)
+      .join("\n") + "\n\n"
+  );
+  return 0;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((err) => {
+    const msg = err instanceof Error ? err.message : String(err);
+    process.stderr.write(`Error: ${msg}\n`);
+    process.exit(2);
+  });
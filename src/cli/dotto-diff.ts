@@ -0,0 +1,139 @@
+#!/usr/bin/env node
+/**
+ * Dotto Schema Diff CLI
+ *
+ * Shows schema changes between two commits, or between HEAD and the working tree.
+ * Committed trees are read from git objects: nothing is checked out or stashed, and
+ * no files are written, so it is safe to run on a dirty checkout or in a hook.
+ *
+ * Usage:
+ *   npx tsx src/cli/dotto-diff.ts --working
+ *   npx tsx src/cli/dotto-diff.ts --working --fail-on-breaking   (pre-commit check)
+ *   npx tsx src/cli/dotto-diff.ts --base main --head HEAD --json
+ *   npx tsx src/cli/dotto-diff.ts --target main   (whole PR: from the merge-base)
+ *
+ * Exit codes:
+ *   0 - Diff produced (no breaking changes, or --fail-on-breaking not set)
+ *   1 - Breaking changes found and --fail-on-breaking is set
+ *   2 - Not a git repository, or a ref could not be read
+ */
+
+import { GitScanner, GitComparisonResult } from "../engine/git/GitScanner.js";
+
+function getArgValue(flag: string): string | null {
+  const idx = process.argv.indexOf(flag);
+  if (idx === -1) return null;
+  const next = process.argv[idx + 1];
+  if (!next || next.startsWith("--")) return null;
+  return next;
+}
+
+const HELP_TEXT = `
+Dotto Schema Diff CLI
+
+USAGE:
+  dotto-diff --working [options]           HEAD vs uncommitted changes
+  dotto-diff --base <ref> [--head <ref>]   Between two commits
+  dotto-diff --target <branch>             Everything on this branch since it left <branch>
+
+OPTIONS:
+  --working           Compare the working tree (including untracked files) with HEAD
+  --base <ref>        Base commit (default: the merge-base with the target branch,
+                      else HEAD~1)
+  --target <branch>   Target branch (default: GITHUB_BASE_REF or
+                      CI_MERGE_REQUEST_TARGET_BRANCH_NAME)
+  --head <ref>        Head commit (default: HEAD)
+  --fail-on-breaking  Exit 1 when any change is breaking
+  --json              Output the comparison as JSON
+
+The working tree, index and stash are never modified.
+
+EXAMPLES:
+  # Pre-commit hook (.git/hooks/pre-commit)
+  npx tsx src/cli/dotto-diff.ts --working --fail-on-breaking
+
+  # What changed on this branch
+  dotto-diff --target main
+`;
+
+async function main(): Promise<number> {
+  if (process.argv.includes("--help") || process.argv.includes("-h")) {
+    process.stdout.write(HELP_TEXT);
+    return 0;
+  }
+
+  const working = process.argv.includes("--working");
+  const jsonOutput = process.argv.includes("--json");
+  const failOnBreaking = process.argv.includes("--fail-on-breaking");
+
+  const git = new GitScanner(process.cwd());
+  let result: GitComparisonResult;
+  try {
+    result = working
+      ? await git.scanUncommittedChanges()
+      : await git.compareCommits(
+          git.resolveBase({
+            baseRef: getArgValue("--base") ?? undefined,
+            target: getArgValue("--target") ?? undefined,
+          }).baseRef,
+          getArgValue("--head") ?? "HEAD"
+        );
+  } catch (err) {
+    process.stderr.write(`Error: ${err instanceof Error ? err.message : String(err)}\n`);
+    return 2;
+  }
+
+  const changes = result.diffs.filter((d) => d.changeType !== "unchanged");
+  const breaking = changes.filter((d) => d.breaking);
+
+  if (jsonOutput) {
+    process.stdout.write(
+      JSON.stringify(
+        {
+          baseCommit: result.baseCommit,
+          headCommit: result.headCommit,
+          filesChanged: result.filesChanged,
+          diffs: changes.map((d) => ({
+            nodeId: d.nodeId,
+            name: d.name,
+            type: d.type,
+            changeType: d.changeType,
+            ...(d.previousNodeId ? { previousNodeId: d.previousNodeId } : {}),
+            breaking: d.breaking,
+            changes: d.changes,
+          })),
+          summary: { totalChanges: changes.length, breakingChanges: breaking.length },
+        },
+        null,
+        2
+      ) + "\n"
+    );
+  } else {
+    process.stdout.write(`\n  ${result.baseCommit.slice(0, 12)} → ${result.headCommit}\n\n`);
+    if (changes.length === 0) {
+      process.stdout.write("  No schema changes.\n\n");
+    }
+    for (const diff of changes) {
+      const icon = diff.breaking ? "❌" : "•";
+      process.stdout.write(`  ${icon} ${diff.changeType.padEnd(8)} ${diff.nodeId}\n`);
+      for (const change of diff.changes) {
+        process.stdout.write(`      ${change.description}\n`);
+      }
+    }
+    if (changes.length > 0) {
+      process.stdout.write(
+        `\n  ${changes.length} schema change(s), ${breaking.length} breaking\n\n`
+      );
+    }
+  }
+
+  return failOnBreaking && breaking.length > 0 ? 1 : 0;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((err) => {
+    const msg = err instanceof Error ? err.message : String(err);
+    process.stderr.write(`Error: ${msg}\n`);
+    process.exit(2);
+  });
@@ -14,8 +14,11 @@ function getArgValue(flag: string): string | null {
 async function main(): Promise<void> {
   const artifactsDir = getArgValue("--artifacts") ?? path.resolve("artifacts");
   const baseRef = getArgValue("--base-ref") ?? undefined;
+  const targetBranch = getArgValue("--target") ?? undefined;
   const changeId = getArgValue("--change-id") ?? process.env.GITHUB_SHA ?? undefined;
   const intentPath = getArgValue("--intent-path") ?? null;
+  const typeCheck = process.argv.includes("--type-check");
+  const tsconfigPath = getArgValue("--tsconfig");
 
   let intent: unknown = {};
   if (intentPath) {
@@ -26,8 +29,11 @@ async function main(): Promise<void> {
   await generateArtifacts({
     artifactsDir,
     baseRef,
+    targetBranch,
     change_id: changeId,
     intent,
+    typeCheck,
+    tsconfigPath: tsconfigPath ? path.resolve(tsconfigPath) : undefined,
   });
 }
 
@@ -0,0 +1,136 @@
+#!/usr/bin/env node
+/**
+ * Dotto Schema History CLI
+ *
+ * When did a schema change, in which commit, by whom, and what was decided about it.
+ * Commits are scanned from git objects; the working tree is never touched.
+ *
+ * Usage:
+ *   npx tsx src/cli/dotto-history.ts --node src/payments/payment.dto.ts:Payment
+ *   npx tsx src/cli/dotto-history.ts --from v1.2.0 --to HEAD --json
+ *
+ * Exit codes:
+ *   0 - History produced
+ *   2 - Not a git repository, or a ref could not be read
+ */
+
+import path from "node:path";
+
+import { GitScanner } from "../engine/git/GitScanner.js";
+import {
+  DEFAULT_HISTORY_MAX_COMMITS,
+  SchemaHistory,
+  SchemaHistoryResult,
+} from "../engine/analysis/SchemaHistory.js";
+
+function getArgValue(flag: string): string | null {
+  const idx = process.argv.indexOf(flag);
+  if (idx === -1) return null;
+  const next = process.argv[idx + 1];
+  if (!next || next.startsWith("--")) return null;
+  return next;
+}
+
+const HELP_TEXT = `
+Dotto Schema History CLI
+
+USAGE:
+  dotto-history [--node <nodeId>] [options]
+
+OPTIONS:
+  --node <nodeId>     Only this node (follows renames), e.g. src/payment.dto.ts:Payment
+  --from <ref>        Start after this commit (default: the first commit in reach)
+  --to <ref>          End at this commit (default: HEAD)
+  --max-commits <n>   Scan at most the last n commits (default: ${DEFAULT_HISTORY_MAX_COMMITS})
+  --memory <path>     Decisions to attribute changes to (default: src/memory/decisions.json)
+  --json              Output the history as JSON
+
+Decisions are matched to commits by change_id (the commit SHA, as set from GITHUB_SHA).
+`;
+
+function printHistory(result: SchemaHistoryResult): void {
+  const nodeIds = Object.keys(result.nodes);
+  process.stdout.write(
+    `\n  ${result.from ? result.from.slice(0, 12) : "(root)"}..${result.to.slice(0, 12)}` +
+      ` — ${result.commitsScanned} commit(s)${result.truncated ? " (truncated)" : ""}\n\n`
+  );
+  if (nodeIds.length === 0) {
+    process.stdout.write("  No schema changes.\n\n");
+    return;
+  }
+
+  for (const nodeId of nodeIds) {
+    process.stdout.write(`  ${nodeId}\n`);
+    for (const entry of result.nodes[nodeId]) {
+      const icon = entry.breaking ? "❌" : "•";
+      process.stdout.write(
+        `    ${icon} ${entry.date.slice(0, 10)} ${entry.commit.slice(0, 12)} ${entry.changeType}` +
+          ` — ${entry.author}: ${entry.message}\n`
+      );
+      if (entry.previousNodeId) {
+        process.stdout.write(`        renamed from ${entry.previousNodeId}\n`);
+      }
+      for (const change of entry.changes) {
+        process.stdout.write(`        ${change.description}\n`);
+      }
+      if (entry.decision) {
+        const feedback = entry.decision.human_feedback;
+        const ruling =
+          feedback?.outcome === "overridden" && feedback.override_decision
+            ? `${feedback.override_decision.toUpperCase()} (overrode ${entry.decision.decision})`
+            : entry.decision.decision.toUpperCase();
+        process.stdout.write(
+          `        Decision: ${ruling} at ${entry.decision.timestamp}` +
+            `${feedback?.notes ? ` — ${feedback.notes}` : ""}\n`
+        );
+      }
+    }
+    process.stdout.write("\n");
+  }
+}
+
+async function main(): Promise<number> {
+  if (process.argv.includes("--help") || process.argv.includes("-h")) {
+    process.stdout.write(HELP_TEXT);
+    return 0;
+  }
+
+  const maxCommits = Number(getArgValue("--max-commits") ?? DEFAULT_HISTORY_MAX_COMMITS);
+  if (!Number.isInteger(maxCommits) || maxCommits < 1) {
+    process.stderr.write("--max-commits must be a positive integer\n");
+    return 2;
+  }
+
+  const decisions = SchemaHistory.loadDecisions(
+    path.resolve(getArgValue("--memory") ?? "src/memory/decisions.json")
+  );
+  const history = new SchemaHistory(new GitScanner(process.cwd()), { decisions });
+
+  let result: SchemaHistoryResult;
+  try {
+    result = await history.build({
+      from: getArgValue("--from") ?? undefined,
+      to: getArgValue("--to") ?? undefined,
+      maxCommits,
+      nodeId: getArgValue("--node") ?? undefined,
+    });
+  } catch (err) {
+    process.stderr.write(`Error: ${err instanceof Error ? err.message : String(err)}\n`);
+    return 2;
+  }
+
+  if (process.argv.includes("--json")) {
+    process.stdout.write(JSON.stringify(result, null, 2) + "\n");
+  } else {
+    printHistory(result);
+  }
+  return 0;
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((err) => {
+    const msg = err instanceof Error ? err.message : String(err);
+    process.stderr.write(`Error: ${msg}\n`);
+    process.exit(2);
+  });
@@ -0,0 +1,196 @@
+#!/usr/bin/env node
+/**
+ * Dotto Signing Key CLI
+ *
+ * Manages the trusted key registry used to verify authorization receipts.
+ *
+ * Usage:
+ *   npx tsx src/cli/dotto-keys.ts generate --algorithm ed25519
+ *   npx tsx src/cli/dotto-keys.ts generate --approver alice
+ *   npx tsx src/cli/dotto-keys.ts rotate
+ *   npx tsx src/cli/dotto-keys.ts revoke <kid> --reason "key leaked"
+ *   npx tsx src/cli/dotto-keys.ts list
+ */
+
+import crypto from "node:crypto";
+import { mkdirSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import {
+  KeyRegistry,
+  RegisteredKey,
+  keyRegistryPath,
+  loadKeyRegistry,
+  saveKeyRegistry,
+} from "../crypto/keyRegistry.js";
+import { SigningAlgorithm, keyIdFor } from "../crypto/signing.js";
+
+function getArgValue(flag: string): string | null {
+  const idx = process.argv.indexOf(flag);
+  if (idx === -1) return null;
+  const next = process.argv[idx + 1];
+  if (!next || next.startsWith("--")) return null;
+  return next;
+}
+
+const HELP_TEXT = `
+Dotto Signing Key CLI
+
+USAGE:
+  dotto-keys generate [options]      Create a key and add it to the registry
+  dotto-keys rotate [options]        Create a key and retire the currently active ones
+  dotto-keys revoke <kid> [--reason] Revoke a key; receipts it signed stop verifying
+  dotto-keys list                    Show registered keys
+
+OPTIONS:
+  --algorithm <alg>   ed25519 (default), ecdsa-p256 or hmac-sha256
+  --out <dir>         Where to write private keys (default: .dotto/keys)
+  --registry <path>   Key registry file (default: DOTTO_KEY_REGISTRY or src/crypto/keys.json)
+  --reason <text>     Revocation reason
+  --approver <name>   Register the key to a human approver (multi-party approval)
+                      instead of the governor; rotation only retires that approver's keys
+
+Retired keys keep verifying receipts issued while they were active.
+Revoked keys verify nothing.
+`;
+
+const ALGORITHMS: SigningAlgorithm[] = ["ed25519", "ecdsa-p256", "hmac-sha256"];
+
+/**
+ * Generate key material and write any secret part to disk or stdout.
+ */
+function generateKey(algorithm: SigningAlgorithm, outDir: string): RegisteredKey {
+  const validFrom = new Date().toISOString();
+
+  if (algorithm === "hmac-sha256") {
+    const kid = `hmac-${crypto.randomBytes(4).toString("hex")}`;
+    const secretEnv = `DOTTO_SIGNING_KEY_${kid.replace(/-/g, "_").toUpperCase()}`;
+    const secret = crypto.randomBytes(32).toString("base64");
+    process.stdout.write(`\n  Secret (store it, it is not saved anywhere):\n  ${secret}\n\n`);
+    process.stdout.write(`  Signer:    DOTTO_SIGNING_KEY=<secret> DOTTO_SIGNING_KEY_ID=${kid}\n`);
+    process.stdout.write(`  Verifiers: ${secretEnv}=<secret>\n\n`);
+    return { kid, algorithm, secret_env: secretEnv, valid_from: validFrom, valid_until: null };
+  }
+
+  const { privateKey, publicKey } =
+    algorithm === "ed25519"
+      ? crypto.generateKeyPairSync("ed25519")
+      : crypto.generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+  const kid = keyIdFor(publicKey);
+
+  mkdirSync(outDir, { recursive: true });
+  const privatePath = path.join(outDir, `${kid}.pem`);
+  writeFileSync(privatePath, privateKey.export({ type: "pkcs8", format: "pem" }), {
+    mode: 0o600,
+  });
+  process.stdout.write(`\n  Private key: ${privatePath}\n`);
+  process.stdout.write(`  Signer:      DOTTO_SIGNING_PRIVATE_KEY=${privatePath}\n\n`);
+
+  return {
+    kid,
+    algorithm,
+    public_key: publicKey.export({ type: "spki", format: "pem" }).toString(),
+    valid_from: validFrom,
+    valid_until: null,
+  };
+}
+
+function formatKey(key: RegisteredKey): string {
+  const status = key.revoked
+    ? `REVOKED${key.revocation_reason ? ` (${key.revocation_reason})` : ""}`
+    : key.valid_until
+      ? `retired ${key.valid_until}`
+      : "active";
+  const owner = key.approver ? `  approver ${key.approver}` : "";
+  return `  ${key.kid.padEnd(20)} ${key.algorithm.padEnd(12)} from ${key.valid_from}  ${status}${owner}`;
+}
+
+async function main(): Promise<number> {
+  const command = process.argv[2];
+  if (!command || command === "--help" || command === "-h") {
+    process.stdout.write(HELP_TEXT);
+    return command ? 0 : 2;
+  }
+
+  const registryPath = path.resolve(getArgValue("--registry") ?? keyRegistryPath());
+  const registry: KeyRegistry = loadKeyRegistry(registryPath) ?? { keys: [] };
+
+  switch (command) {
+    case "generate":
+    case "rotate": {
+      const algorithm = (getArgValue("--algorithm") ?? "ed25519") as SigningAlgorithm;
+      if (!ALGORITHMS.includes(algorithm)) {
+        process.stderr.write(`Unknown algorithm: ${algorithm}\n`);
+        return 2;
+      }
+
+      const approver = getArgValue("--approver") ?? undefined;
+      if (approver && algorithm === "hmac-sha256") {
+        // Anyone holding a shared secret could forge the approval
+        process.stderr.write("Approver keys must be ed25519 or ecdsa-p256\n");
+        return 2;
+      }
+
+      const key = generateKey(algorithm, path.resolve(getArgValue("--out") ?? ".dotto/keys"));
+      if (approver) {
+        key.approver = approver;
+        process.stdout.write(
+          `  Approve:     dotto-approve --approver ${approver} --key <private key>\n\n`
+        );
+      }
+
+      if (command === "rotate") {
+        // Retire, don't revoke: receipts issued before now keep verifying
+        for (const existing of registry.keys) {
+          if (!existing.revoked && !existing.valid_until && existing.approver === approver) {
+            existing.valid_until = key.valid_from;
+            process.stdout.write(`  Retired ${existing.kid}\n`);
+          }
+        }
+      }
+
+      registry.keys.push(key);
+      saveKeyRegistry(registry, registryPath);
+      process.stdout.write(`  Registered ${key.kid} in ${registryPath}\n\n`);
+      return 0;
+    }
+
+    case "revoke": {
+      const kid = process.argv[3];
+      const key = registry.keys.find((k) => k.kid === kid);
+      if (!kid || !key) {
+        process.stderr.write(`Unknown key: ${kid ?? "(none)"}\n`);
+        return 2;
+      }
+
+      key.revoked = true;
+      key.revoked_at = new Date().toISOString();
+      key.revocation_reason = getArgValue("--reason") ?? undefined;
+      saveKeyRegistry(registry, registryPath);
+      process.stdout.write(`Revoked ${kid}. Receipts signed by it will no longer verify.\n`);
+      return 0;
+    }
+
+    case "list": {
+      if (registry.keys.length === 0) {
+        process.stdout.write(`No keys registered in ${registryPath}\n`);
+        return 0;
+      }
+      process.stdout.write(`Keys in ${registryPath}:\n\n`);
+      process.stdout.write(registry.keys.map(formatKey).join("\n") + "\n");
+      return 0;
+    }
+
+    default:
+      process.stderr.write(`Unknown command: ${command}\n${HELP_TEXT}`);
+      return 2;
+  }
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((err) => {
+    const msg = err instanceof Error ? err.message : String(err);
+    process.stderr.write(`Error: ${msg}\n`);
+    process.exit(2);
+  });
@@ -8,10 +8,20 @@
  * Usage:
  *   npx tsx src/cli/dotto-verify.ts --receipt artifacts/authorization-receipt.json
  *   npx tsx src/cli/dotto-verify.ts --artifacts artifacts/
+ *   npx tsx src/cli/dotto-verify.ts --artifacts artifacts/ --public-key dotto-signing.pub.pem
+ *   npx tsx src/cli/dotto-verify.ts --artifacts artifacts/ --environment staging --flag new_checkout=off
+ *   npx tsx src/cli/dotto-verify.ts --inclusion proof.json --epochs artifacts/epochs.json
+ *
+ * The receipt must match the checkout: the current commit and the artifacts next
+ * to the receipt (or in --artifacts) must be the ones that were authorized.
+ *
+ * --inclusion checks a Merkle inclusion proof (as served by GET /proofs/:nodeId)
+ * without the epoch's tree. The root comes from the sealed epoch in a trusted
+ * epochs.json, never from the proof document itself.
  *
  * Exit codes:
  *   0 - Receipt valid and approved
- *   1 - Receipt valid but not approved (blocked/escalate)
+ *   1 - Receipt valid but not approved (blocked/escalate) or awaiting approvers
  *   2 - Receipt invalid, missing, or tampered
  */
 
@@ -24,6 +34,12 @@ import {
   formatReceiptForDisplay,
   upgradeLegacyReceipt,
 } from "../crypto/receipt.js";
+import { loadPublicKey } from "../crypto/signing.js";
+import { loadCheckoutBinding } from "../crypto/binding.js";
+import { deployContextFromArgs } from "../crypto/conditions.js";
+import { MerkleProof, verifyMerkleProof } from "../crypto/merkle.js";
+import { EpochArtifact, epochLeafHash } from "../engine/proof/EpochManager.js";
+import { EpochStore } from "../engine/proof/EpochStore.js";
 
 function getArgValue(flag: string): string | null {
   const idx = process.argv.indexOf(flag);
@@ -39,18 +55,32 @@ Dotto Receipt Verification CLI
 USAGE:
   dotto-verify --receipt <path>     Verify a specific receipt file
   dotto-verify --artifacts <dir>    Verify receipt in artifacts directory
+  dotto-verify --inclusion <path>   Verify a Merkle inclusion proof (GET /proofs/:nodeId)
   dotto-verify --help               Show this help message
 
 OPTIONS:
   --receipt <path>    Path to authorization-receipt.json
-  --artifacts <dir>   Directory containing authorization-receipt.json
+  --artifacts <dir>   Directory containing authorization-receipt.json and the
+                      artifacts it must match (defaults to the receipt's directory)
+  --public-key <path> PEM public key for Ed25519/ECDSA receipts when no key registry
+                      is in use (default: DOTTO_VERIFY_PUBLIC_KEY). With a registry,
+                      the key the receipt names (kid) is used.
+  --environment <env> Environment being deployed to (default: DOTTO_ENVIRONMENT)
+  --flag <name=on|off> Feature flag state, repeatable (default: DOTTO_FEATURE_FLAGS)
   --json              Output result as JSON (for CI integration)
   --allow-expired     Allow expired receipts (not recommended)
+  --allow-unbound     Accept receipts issued before commit binding (no commit_sha)
+                      (default: DOTTO_ALLOW_UNBOUND_RECEIPTS)
+  --epochs <path>     Trusted epochs.json holding the sealed roots --inclusion checks
+                      against (default: <artifacts>/epochs.json)
+
+Revoked receipts are read from DOTTO_REVOCATION_LIST (default: src/memory/revocations.json).
 
 EXIT CODES:
   0  Receipt is valid and ruling is APPROVE
-  1  Receipt is valid but ruling is BLOCK or ESCALATE
-  2  Receipt is missing, invalid, or tampered
+  1  Receipt is valid but ruling is BLOCK or ESCALATE, or approvals are missing
+  2  Receipt is missing, invalid, tampered, revoked, or issued for a different
+     commit/artifacts
 
 EXAMPLES:
   # Verify receipt before deployment
@@ -61,8 +91,89 @@ EXAMPLES:
 
   # Verify specific receipt file
   dotto-verify --receipt ./my-receipt.json
+
+  # Check a change was sealed into an epoch
+  curl -s localhost:5000/proofs/<nodeId> > proof.json
+  dotto-verify --inclusion proof.json --epochs ./artifacts/epochs.json
+
+  # Verify an asymmetric receipt without access to the signing key
+  dotto-verify --artifacts ./artifacts --public-key ./dotto-signing.pub.pem
 `;
 
+/**
+ * Verify an inclusion proof document: { artifact, merkle_proof, epoch: { epoch_id } }.
+ * The document is unauthenticated, so the root is the one sealed for that epoch in
+ * epochs.json; a root in the document that disagrees with it fails verification.
+ */
+async function verifyInclusion(
+  proofPath: string,
+  epochsPath: string,
+  jsonOutput: boolean
+): Promise<number> {
+  let doc: {
+    artifact?: EpochArtifact;
+    merkle_proof?: MerkleProof;
+    merkle_root?: string;
+    epoch?: { epoch_id?: number; merkle_root?: string };
+  };
+  try {
+    doc = JSON.parse(await readFile(proofPath, "utf8"));
+  } catch (err) {
+    const message = `Failed to load inclusion proof: ${err instanceof Error ? err.message : String(err)}`;
+    process.stdout.write(
+      jsonOutput ? JSON.stringify({ valid: false, message }) + "\n" : `\n  ❌ ${message}\n\n`
+    );
+    return 2;
+  }
+
+  const epochId = doc.epoch?.epoch_id;
+  const claimedRoot = doc.merkle_root ?? doc.epoch?.merkle_root;
+  let root: string | undefined;
+  let message: string;
+  try {
+    const { epochs } = await new EpochStore(epochsPath).load();
+    root = epochs.find((e) => e.epoch_id === epochId)?.merkle_root;
+    message = root
+      ? "Inclusion proof does not match the sealed epoch root"
+      : `Epoch ${epochId ?? "?"} is not sealed in ${epochsPath}, so its root cannot be trusted`;
+  } catch (err) {
+    message = `Failed to load epochs: ${err instanceof Error ? err.message : String(err)}`;
+  }
+  if (root && claimedRoot && claimedRoot !== root) {
+    message = `Proof names root ${claimedRoot}, but epoch ${epochId} was sealed with ${root}`;
+  }
+
+  const valid =
+    !!doc.artifact &&
+    !!doc.merkle_proof &&
+    !!root &&
+    (!claimedRoot || claimedRoot === root) &&
+    verifyMerkleProof(epochLeafHash(doc.artifact), doc.merkle_proof, root);
+
+  if (jsonOutput) {
+    process.stdout.write(
+      JSON.stringify({
+        valid,
+        nodeId: doc.artifact?.id,
+        epoch_id: epochId,
+        merkle_root: root,
+        epochs: epochsPath,
+        path: proofPath,
+        ...(valid ? {} : { message }),
+      }) + "\n"
+    );
+  } else {
+    process.stdout.write("\n");
+    process.stdout.write(
+      valid
+        ? `  ✅ VERIFIED: ${doc.artifact?.id} is included in epoch ${epochId}\n`
+        : `  ❌ FAILED: ${message}\n`
+    );
+    process.stdout.write(`  Merkle root: ${root ?? "(untrusted)"} (from ${epochsPath})\n\n`);
+  }
+  return valid ? 0 : 2;
+}
+
 async function main(): Promise<number> {
   // Handle help
   if (process.argv.includes("--help") || process.argv.includes("-h")) {
@@ -70,10 +181,25 @@ async function main(): Promise<number> {
     return 0;
   }
 
+  const inclusionPath = getArgValue("--inclusion");
+  if (inclusionPath) {
+    const epochsPath =
+      getArgValue("--epochs") ??
+      path.join(getArgValue("--artifacts") ?? "artifacts", "epochs.json");
+    return verifyInclusion(
+      path.resolve(inclusionPath),
+      path.resolve(epochsPath),
+      process.argv.includes("--json")
+    );
+  }
+
   const receiptPath = getArgValue("--receipt");
   const artifactsDir = getArgValue("--artifacts");
   const jsonOutput = process.argv.includes("--json");
   const allowExpired = process.argv.includes("--allow-expired");
+  const allowUnbound = process.argv.includes("--allow-unbound") || undefined;
+  const publicKeyPath = getArgValue("--public-key");
+  const publicKey = publicKeyPath ? loadPublicKey(path.resolve(publicKeyPath)) : undefined;
 
   // Determine receipt path
   let resolvedReceiptPath: string;
@@ -129,15 +255,33 @@ async function main(): Promise<number> {
     return 2;
   }
 
+  // Recompute what the receipt must be bound to from this checkout
+  const binding = await loadCheckoutBinding(
+    artifactsDir ? path.resolve(artifactsDir) : path.dirname(resolvedReceiptPath)
+  );
+
   // Verify receipt
-  const result = verifyReceipt(receipt, { require_approval: true });
+  const context = deployContextFromArgs(process.argv);
+  const result = verifyReceipt(receipt, {
+    require_approval: true,
+    public_key: publicKey,
+    binding,
+    allow_unbound: allowUnbound,
+    context,
+  });
 
   // Handle expired receipts if --allow-expired is set
   if (!result.valid && result.reason === "expired" && allowExpired) {
     // Re-verify without expiry check
     const expiryBypassResult = verifyReceipt(
       { ...receipt, expires_at: null },
-      { require_approval: true }
+      {
+        require_approval: true,
+        public_key: publicKey,
+        binding,
+        allow_unbound: allowUnbound,
+        context,
+      }
     );
     if (expiryBypassResult.valid) {
       if (!jsonOutput) {
@@ -168,12 +312,31 @@ async function main(): Promise<number> {
       );
       process.stdout.write("  Deployment authorized. Proceed.\n\n");
     } else {
-      const icon = result.reason === "not_approved" ? "⛔" : "❌";
+      const icon =
+        result.reason === "not_approved" || result.reason === "quorum_not_met" ? "⛔" : "❌";
       process.stdout.write(`  ${icon} FAILED: ${result.message}\n\n`);
 
       if (result.reason === "invalid_signature") {
         process.stdout.write("  The receipt has been tampered with or is corrupted.\n");
         process.stdout.write("  Re-run governance to obtain a valid receipt.\n\n");
+      } else if (result.reason === "revoked_key" || result.reason === "unknown_key") {
+        process.stdout.write(`  Key ID: ${receipt.kid ?? "(none)"}\n`);
+        process.stdout.write("  The signing key is not trusted by the key registry.\n");
+        process.stdout.write("  Re-run governance with an active key to obtain a new receipt.\n\n");
+      } else if (result.reason === "condition_unmet") {
+        process.stdout.write(`  Environment: ${context.environment ?? "(not given)"}\n`);
+        process.stdout.write(
+          "  Deploy where and when the receipt allows, or re-run governance.\n\n"
+        );
+      } else if (result.reason === "quorum_not_met") {
+        process.stdout.write(`  Change: ${receipt.change_id}\n`);
+        process.stdout.write("  Each required approver must sign the receipt (dotto-approve).\n\n");
+      } else if (result.reason === "revoked") {
+        process.stdout.write("  This authorization was withdrawn before it expired.\n");
+        process.stdout.write("  Re-run governance to obtain a new ruling.\n\n");
+      } else if (result.reason === "commit_mismatch" || result.reason === "artifact_mismatch") {
+        process.stdout.write("  A receipt only authorizes the exact change it was issued for.\n");
+        process.stdout.write("  Re-run governance on this commit to obtain a new receipt.\n\n");
       } else if (result.reason === "expired") {
         process.stdout.write(`  Receipt expired at: ${receipt.expires_at}\n`);
         process.stdout.write("  Re-run governance to obtain a fresh receipt.\n\n");
@@ -193,7 +356,7 @@ async function main(): Promise<number> {
   // Return appropriate exit code
   if (result.valid) {
     return 0;
-  } else if (result.reason === "not_approved") {
+  } else if (result.reason === "not_approved" || result.reason === "quorum_not_met") {
     return 1;
   } else {
     return 2;
@@ -0,0 +1,97 @@
+/**
+ * Multi-party Approvals
+ *
+ * Policy rules can require M distinct human approvers (`approvals_required` in rules.json).
+ * Each approver signs the same payload as the receipt with their own key and the
+ * signature is appended to the receipt's `approvals` array.
+ *
+ * Approver keys live in the key registry with an `approver` name, so an approval
+ * only counts when the signing key is registered to the approver it claims to be.
+ */
+
+import { KeyRegistry, resolveKey } from "./keyRegistry.js";
+import { Signer, SigningAlgorithm, verifyData } from "./signing.js";
+
+export type ReceiptApproval = {
+  approver: string;
+  algorithm: SigningAlgorithm;
+  kid: string;
+  signed_at: string; // Informational: set by the approver, not signed
+  signature: string; // Over the same payload as the receipt signature
+};
+
+export type ApprovalTally = {
+  approvers: string[]; // Distinct approvers with a valid signature
+  rejected: { approver: string; message: string }[];
+};
+
+/**
+ * Sign a receipt payload as the given approver.
+ */
+export function createApproval(data: string, approver: string, signer: Signer): ReceiptApproval {
+  if (!signer.kid) {
+    throw new Error("Approval keys need a key ID so verifiers can find them in the key registry");
+  }
+  return {
+    approver,
+    algorithm: signer.algorithm,
+    kid: signer.kid,
+    signed_at: new Date().toISOString(),
+    signature: signer.sign(data),
+  };
+}
+
+/**
+ * Check each approval against the registry and count distinct valid approvers.
+ * Approver keys must be valid at verification time (`now`): `signed_at` is chosen by
+ * the approver and not covered by the signature, so it cannot vouch for the key.
+ */
+export function tallyApprovals(
+  approvals: ReceiptApproval[],
+  data: string,
+  registry: KeyRegistry | null,
+  now: Date = new Date()
+): ApprovalTally {
+  const approvers = new Set<string>();
+  const rejected: ApprovalTally["rejected"] = [];
+
+  for (const approval of approvals) {
+    if (!registry) {
+      rejected.push({ approver: approval.approver, message: "No key registry to verify against." });
+      continue;
+    }
+
+    const resolution = resolveKey(
+      registry,
+      approval.kid,
+      approval.algorithm,
+      now.toISOString(),
+      "approver"
+    );
+    if (resolution.status !== "trusted") {
+      rejected.push({ approver: approval.approver, message: resolution.message });
+      continue;
+    }
+    if (resolution.key.approver !== approval.approver) {
+      rejected.push({
+        approver: approval.approver,
+        message: `Key ${approval.kid} is not registered to ${approval.approver}.`,
+      });
+      continue;
+    }
+
+    let valid = false;
+    try {
+      valid = verifyData(approval.algorithm, data, approval.signature, resolution.verificationKey);
+    } catch {
+      valid = false;
+    }
+    if (valid) {
+      approvers.add(approval.approver);
+    } else {
+      rejected.push({ approver: approval.approver, message: "Signature does not match." });
+    }
+  }
+
+  return { approvers: [...approvers].sort(), rejected };
+}
@@ -0,0 +1,52 @@
+/**
+ * Receipt Binding
+ *
+ * Collects the facts a receipt is bound to (commit, repository, artifact contents)
+ * from the current checkout, both when issuing and when enforcing a receipt.
+ */
+
+import { GitScanner } from "../engine/git/GitScanner.js";
+import { loadArtifacts } from "../engine/dotto.js";
+
+export type ReceiptBinding = {
+  commit_sha?: string;
+  repository?: string;
+  base_ref?: string;
+  artifacts?: Record<string, unknown>;
+};
+
+/**
+ * Commit and repository of the checkout. CI-provided SHAs are used when git is unavailable.
+ */
+export function currentGitBinding(repoPath: string = process.cwd()): ReceiptBinding {
+  const git = new GitScanner(repoPath);
+  let commitSha: string | undefined;
+  try {
+    commitSha = git.getCurrentCommit();
+  } catch {
+    commitSha = process.env.GITHUB_SHA ?? process.env.CI_COMMIT_SHA ?? undefined;
+  }
+
+  const repository = git.getRepositoryName();
+  return {
+    commit_sha: commitSha,
+    repository: repository === "unknown" ? undefined : repository,
+  };
+}
+
+/**
+ * Binding of a checkout with its generated artifacts, for verification.
+ * Missing artifacts leave `artifacts` undefined so the verifier fails closed.
+ */
+export async function loadCheckoutBinding(
+  artifactsDir: string,
+  repoPath: string = process.cwd()
+): Promise<ReceiptBinding> {
+  let artifacts: Record<string, unknown> | undefined;
+  try {
+    artifacts = (await loadArtifacts(artifactsDir)) as unknown as Record<string, unknown>;
+  } catch {
+    artifacts = undefined;
+  }
+  return { ...currentGitBinding(repoPath), artifacts };
+}
@@ -0,0 +1,43 @@
+/**
+ * Canonical JSON
+ *
+ * Key-order independent serialisation used for content hashes, so the same
+ * artifacts always hash the same regardless of how they were written.
+ * Volatile fields (generation timestamps) are dropped: regenerating identical
+ * artifacts at a later time must not change their hash.
+ */
+
+import crypto from "node:crypto";
+
+export const VOLATILE_FIELDS: ReadonlySet<string> = new Set([
+  "timestamp",
+  "lastCrawl",
+  "lastModified",
+]);
+
+/**
+ * Serialise with sorted object keys, omitting the given fields at every depth.
+ */
+export function canonicalJson(
+  value: unknown,
+  omit: ReadonlySet<string> = new Set<string>()
+): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value) ?? "null";
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((v) => (v === undefined ? "null" : canonicalJson(v, omit))).join(",")}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([key, v]) => v !== undefined && !omit.has(key))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([key, v]) => `${JSON.stringify(key)}:${canonicalJson(v, omit)}`).join(",")}}`;
+}
+
+/**
+ * SHA-256 (hex) of the canonical JSON form, ignoring volatile fields.
+ */
+export function canonicalHash(value: unknown, omit: ReadonlySet<string> = VOLATILE_FIELDS): string {
+  return crypto.createHash("sha256").update(canonicalJson(value, omit)).digest("hex");
+}
@@ -0,0 +1,261 @@
+/**
+ * Receipt Conditions
+ *
+ * Turns the governor's free-text conditions into machine-checkable ones that are
+ * stored in the signed receipt and evaluated at deploy time.
+ *
+ * Recognised forms (case-insensitive):
+ *   "deploy only to staging", "valid only for environment production, canary"
+ *   "requires feature flag new_checkout off"
+ *   "deploy window 09:00-17:00 UTC"
+ *
+ * One text can state several constraints ("only in production after feature flag
+ * checkout_v2 is enabled"); every one found is enforced, so none is silently dropped.
+ *
+ * Environment names must follow the word "environment(s)" or be known environments
+ * (DOTTO_ENVIRONMENTS, comma-separated; default: DEFAULT_ENVIRONMENTS), so prose such as
+ * "deploy only in off-peak hours" is not mistaken for an allow-list.
+ *
+ * A recognised form with impossible values (e.g. "window 25:00-26:00 UTC") becomes an
+ * invalid condition that is never met. Text with no recognised form is kept as an
+ * advisory condition: recorded, never enforced.
+ */
+
+export type ReceiptCondition =
+  | { type: "environment"; allowed: string[]; text: string }
+  | { type: "feature_flag"; flag: string; state: "on" | "off"; text: string }
+  | { type: "deploy_window"; start: string; end: string; text: string } // HH:MM UTC
+  | { type: "invalid"; reason: string; text: string }
+  | { type: "advisory"; text: string };
+
+export type DeployContext = {
+  environment?: string;
+  feature_flags?: Record<string, boolean>;
+  now?: Date;
+};
+
+export type ConditionCheck = {
+  condition: ReceiptCondition;
+  met: boolean;
+  message: string;
+};
+
+export const DEFAULT_ENVIRONMENTS = [
+  "production",
+  "prod",
+  "staging",
+  "stage",
+  "canary",
+  "preview",
+  "qa",
+  "test",
+  "development",
+  "dev",
+  "sandbox",
+];
+
+const ENVIRONMENT_PATTERN =
+  /\b(?:deploy(?:ment)?s?\s+only\s+to|valid\s+only\s+(?:for|in)|only\s+in)\s+(?:the\s+)?(environments?\s+)?([\w-]+(?:\s*(?:,|\bor\b|\band\b)\s*[\w-]+)*)/gi;
+const FEATURE_FLAG_PATTERN =
+  /\bfeature[\s-]+flag\s+[`"']?([\w.-]+)[`"']?\s+(?:is\s+|to\s+be\s+)?(on|off|enabled|disabled)\b/gi;
+const DEPLOY_WINDOW_PATTERN =
+  /\b(?:deploy(?:ment)?\s+)?window\s+(\d{1,2}:\d{2})\s*(?:-|–|—|to)\s*(\d{1,2}:\d{2})\s*UTC\b/gi;
+
+// Words that end an environment list: "only in prod and not in dev"
+const LIST_STOP_WORDS = new Set(["not", "after", "before", "when", "while", "once", "until", "if"]);
+
+function padTime(time: string): string {
+  return time.padStart(5, "0");
+}
+
+function isValidTime(time: string): boolean {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours >= 0 && hours <= 23 && minutes >= 0 && minutes <= 59;
+}
+
+/**
+ * Environments named by one matched clause. With the word "environment(s)" the list runs
+ * to the first stop word; without it, only the leading known environment names count.
+ */
+function environmentList(names: string, explicit: boolean, knownEnvironments: string[]): string[] {
+  const allowed: string[] = [];
+  for (const name of names.split(/\s*(?:,|\bor\b|\band\b)\s*/i)) {
+    const env = name.trim().toLowerCase();
+    if (!env) continue;
+    if (LIST_STOP_WORDS.has(env) || (!explicit && !knownEnvironments.includes(env))) break;
+    allowed.push(env);
+  }
+  return allowed;
+}
+
+/**
+ * Environment names recognised without the word "environment" (DOTTO_ENVIRONMENTS).
+ */
+export function knownEnvironmentsFromEnv(): string[] {
+  const configured = process.env.DOTTO_ENVIRONMENTS?.split(",")
+    .map((e) => e.trim().toLowerCase())
+    .filter(Boolean);
+  return configured && configured.length > 0 ? configured : DEFAULT_ENVIRONMENTS;
+}
+
+/**
+ * Parse one free-text condition into every constraint it states.
+ */
+export function parseCondition(
+  text: string,
+  knownEnvironments: string[] = knownEnvironmentsFromEnv()
+): ReceiptCondition[] {
+  const conditions: ReceiptCondition[] = [];
+
+  for (const window of text.matchAll(DEPLOY_WINDOW_PATTERN)) {
+    const [start, end] = [padTime(window[1]), padTime(window[2])];
+    conditions.push(
+      isValidTime(start) && isValidTime(end)
+        ? { type: "deploy_window", start, end, text }
+        : { type: "invalid", reason: `Deploy window ${start}-${end} UTC is not a valid time`, text }
+    );
+  }
+
+  for (const flag of text.matchAll(FEATURE_FLAG_PATTERN)) {
+    const on = ["on", "enabled"].includes(flag[2].toLowerCase());
+    conditions.push({ type: "feature_flag", flag: flag[1], state: on ? "on" : "off", text });
+  }
+
+  for (const environment of text.matchAll(ENVIRONMENT_PATTERN)) {
+    const allowed = environmentList(environment[2], !!environment[1], knownEnvironments);
+    if (allowed.length > 0) {
+      conditions.push({ type: "environment", allowed, text });
+    }
+  }
+
+  return conditions.length > 0 ? conditions : [{ type: "advisory", text }];
+}
+
+export function parseConditions(
+  conditions: string[] | undefined,
+  knownEnvironments: string[] = knownEnvironmentsFromEnv()
+): ReceiptCondition[] {
+  return (conditions ?? []).flatMap((text) => parseCondition(text, knownEnvironments));
+}
+
+/**
+ * Parse feature flags given as "name=on,other=off" (from --flag or DOTTO_FEATURE_FLAGS).
+ */
+export function parseFeatureFlags(values: string[]): Record<string, boolean> {
+  const flags: Record<string, boolean> = {};
+  for (const value of values.flatMap((v) => v.split(","))) {
+    const [name, state] = value.split("=").map((part) => part.trim());
+    if (!name) continue;
+    flags[name] = ["on", "true", "1", "enabled"].includes((state ?? "on").toLowerCase());
+  }
+  return flags;
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Evaluate one condition. Missing context (no environment, unknown flag) is unmet:
+ * a condition that cannot be checked must not authorize a deployment.
+ */
+export function checkCondition(
+  condition: ReceiptCondition,
+  context: DeployContext
+): ConditionCheck {
+  switch (condition.type) {
+    case "environment": {
+      const env = context.environment?.toLowerCase();
+      if (!env) {
+        return {
+          condition,
+          met: false,
+          message: `Receipt is only valid for ${condition.allowed.join(", ")}; no environment given (--environment).`,
+        };
+      }
+      const met = condition.allowed.includes(env);
+      return {
+        condition,
+        met,
+        message: met
+          ? `Environment ${env} is allowed.`
+          : `Receipt is only valid for ${condition.allowed.join(", ")}, not ${env}.`,
+      };
+    }
+
+    case "feature_flag": {
+      const value = context.feature_flags?.[condition.flag];
+      if (value === undefined) {
+        return {
+          condition,
+          met: false,
+          message: `Feature flag ${condition.flag} must be ${condition.state}; its state is unknown (--flag ${condition.flag}=on|off).`,
+        };
+      }
+      const met = value === (condition.state === "on");
+      return {
+        condition,
+        met,
+        message: met
+          ? `Feature flag ${condition.flag} is ${condition.state}.`
+          : `Feature flag ${condition.flag} must be ${condition.state}.`,
+      };
+    }
+
+    case "deploy_window": {
+      const now = context.now ?? new Date();
+      const current = now.getUTCHours() * 60 + now.getUTCMinutes();
+      const start = minutesOf(condition.start);
+      const end = minutesOf(condition.end);
+      // A window such as 22:00-06:00 wraps past midnight
+      const met =
+        start <= end ? current >= start && current < end : current >= start || current < end;
+      return {
+        condition,
+        met,
+        message: met
+          ? `Within deploy window ${condition.start}-${condition.end} UTC.`
+          : `Outside deploy window ${condition.start}-${condition.end} UTC (now ${now.toISOString().slice(11, 16)} UTC).`,
+      };
+    }
+
+    case "invalid":
+      return { condition, met: false, message: `${condition.reason}: "${condition.text}".` };
+
+    case "advisory":
+      return { condition, met: true, message: condition.text };
+  }
+}
+
+/**
+ * Evaluate all conditions, returning the checks that are unmet.
+ */
+export function unmetConditions(
+  conditions: ReceiptCondition[],
+  context: DeployContext
+): ConditionCheck[] {
+  return conditions.map((c) => checkCondition(c, context)).filter((check) => !check.met);
+}
+
+/**
+ * Deploy context from CLI flags, falling back to the environment:
+ *   --environment <name>  (DOTTO_ENVIRONMENT)
+ *   --flag <name=on|off>  repeatable (DOTTO_FEATURE_FLAGS="a=on,b=off")
+ */
+export function deployContextFromArgs(argv: string[]): DeployContext {
+  const envIdx = argv.indexOf("--environment");
+  const environment =
+    envIdx !== -1 && argv[envIdx + 1] && !argv[envIdx + 1].startsWith("--")
+      ? argv[envIdx + 1]
+      : process.env.DOTTO_ENVIRONMENT;
+
+  const flagValues = process.env.DOTTO_FEATURE_FLAGS ? [process.env.DOTTO_FEATURE_FLAGS] : [];
+  argv.forEach((arg, i) => {
+    if (arg === "--flag" && argv[i + 1] && !argv[i + 1].startsWith("--")) {
+      flagValues.push(argv[i + 1]);
+    }
+  });
+
+  return { environment: environment || undefined, feature_flags: parseFeatureFlags(flagValues) };
+}
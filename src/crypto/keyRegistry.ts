@@ -0,0 +1,163 @@
+/**
+ * Trusted Key Registry
+ *
+ * Lists every key that has ever signed receipts, so keys can be rotated without
+ * invalidating outstanding receipts and compromised keys can be retired.
+ *
+ * Format (src/crypto/keys.json, or DOTTO_KEY_REGISTRY):
+ *   {
+ *     "keys": [
+ *       {
+ *         "kid": "fef9d4a8492040fb",
+ *         "algorithm": "ed25519",
+ *         "public_key": "-----BEGIN PUBLIC KEY-----...",
+ *         "valid_from": "2026-01-01T00:00:00.000Z",
+ *         "valid_until": null,
+ *         "revoked": false
+ *       }
+ *     ],
+ *     "revocation_list": true,
+ *     "revocation_list_sequence": 3
+ *   }
+ *
+ * HMAC keys never store the secret: `secret_env` names the environment variable holding it.
+ * Keys with an `approver` name belong to a human approver rather than the governor: they
+ * only count towards an approval quorum and never verify as receipt or revocation-list signers.
+ *
+ * `revocation_list` is set once a signed revocation list has been issued; from then on a
+ * missing list fails verification instead of silently un-revoking every receipt.
+ * `revocation_list_sequence` is the sequence of the latest list, and older lists are rejected.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { SigningAlgorithm, VerificationKey, loadPublicKey } from "./signing.js";
+
+export const DEFAULT_KEY_REGISTRY_PATH = "src/crypto/keys.json";
+
+export type RegisteredKey = {
+  kid: string;
+  algorithm: SigningAlgorithm;
+  public_key?: string; // PEM, for ed25519 / ecdsa-p256
+  secret_env?: string; // Env var holding the secret, for hmac-sha256
+  valid_from: string;
+  valid_until?: string | null; // Receipts issued after this are rejected
+  revoked?: boolean; // Every receipt signed by a revoked key is rejected
+  revoked_at?: string;
+  revocation_reason?: string;
+  approver?: string; // Human approver this key belongs to (multi-party approval)
+};
+
+export type KeyRegistry = {
+  keys: RegisteredKey[];
+  revocation_list?: boolean; // A revocation list has been issued and must be present
+  revocation_list_sequence?: number; // Sequence of the latest revocation list issued
+};
+
+export type KeyRole = "signer" | "approver";
+
+export type KeyResolution =
+  | { status: "trusted"; key: RegisteredKey; verificationKey: VerificationKey }
+  | { status: "unknown_key"; message: string }
+  | { status: "revoked_key"; key: RegisteredKey; message: string };
+
+export function keyRegistryPath(): string {
+  return path.resolve(process.env.DOTTO_KEY_REGISTRY ?? DEFAULT_KEY_REGISTRY_PATH);
+}
+
+/**
+ * Load the registry. Returns null when no registry file exists (registry not in use).
+ */
+export function loadKeyRegistry(filePath: string = keyRegistryPath()): KeyRegistry | null {
+  if (!existsSync(filePath)) return null;
+
+  const data = JSON.parse(readFileSync(filePath, "utf8"));
+  if (!data || !Array.isArray(data.keys)) {
+    throw new Error(`Key registry ${filePath} must contain a "keys" array`);
+  }
+  return {
+    keys: data.keys as RegisteredKey[],
+    ...(data.revocation_list === true ? { revocation_list: true } : {}),
+    ...(typeof data.revocation_list_sequence === "number"
+      ? { revocation_list_sequence: data.revocation_list_sequence }
+      : {}),
+  };
+}
+
+export function saveKeyRegistry(registry: KeyRegistry, filePath: string = keyRegistryPath()): void {
+  writeFileSync(filePath, JSON.stringify(registry, null, 2) + "\n", "utf8");
+}
+
+/**
+ * Find the key that signed a record and check it was trusted at signing time in the
+ * given role: governor keys sign receipts and revocation lists, approver keys approvals.
+ */
+export function resolveKey(
+  registry: KeyRegistry,
+  kid: string,
+  algorithm: string,
+  signedAt: string,
+  role: KeyRole = "signer"
+): KeyResolution {
+  const key = registry.keys.find((k) => k.kid === kid);
+  if (!key) {
+    return { status: "unknown_key", message: `Key ${kid} is not in the trusted key registry.` };
+  }
+
+  if (role === "signer" && key.approver) {
+    return {
+      status: "unknown_key",
+      message: `Key ${kid} belongs to approver ${key.approver} and can only sign approvals.`,
+    };
+  }
+  if (role === "approver" && !key.approver) {
+    return {
+      status: "unknown_key",
+      message: `Key ${kid} is not registered to an approver.`,
+    };
+  }
+
+  if (key.revoked) {
+    return {
+      status: "revoked_key",
+      key,
+      message: `Key ${kid} was revoked${key.revoked_at ? ` at ${key.revoked_at}` : ""}${key.revocation_reason ? `: ${key.revocation_reason}` : ""}.`,
+    };
+  }
+
+  if (key.algorithm !== algorithm) {
+    return {
+      status: "unknown_key",
+      message: `Key ${kid} is registered for ${key.algorithm}, not ${algorithm}.`,
+    };
+  }
+
+  const signed = new Date(signedAt).getTime();
+  if (
+    Number.isNaN(signed) ||
+    signed < new Date(key.valid_from).getTime() ||
+    (key.valid_until && signed > new Date(key.valid_until).getTime())
+  ) {
+    return {
+      status: "unknown_key",
+      message: `Key ${kid} was not valid at ${signedAt} (valid ${key.valid_from} to ${key.valid_until ?? "now"}).`,
+    };
+  }
+
+  if (key.algorithm === "hmac-sha256") {
+    const secret = key.secret_env ? process.env[key.secret_env] : undefined;
+    if (!secret) {
+      return {
+        status: "unknown_key",
+        message: `Secret for key ${kid} is not available (set ${key.secret_env ?? "secret_env"}).`,
+      };
+    }
+    return { status: "trusted", key, verificationKey: { secret } };
+  }
+
+  if (!key.public_key) {
+    return { status: "unknown_key", message: `Key ${kid} has no public key in the registry.` };
+  }
+  return { status: "trusted", key, verificationKey: { publicKey: loadPublicKey(key.public_key) } };
+}
@@ -0,0 +1,127 @@
+/**
+ * Merkle Trees and Inclusion Proofs
+ *
+ * Leaves and internal nodes are hashed with different prefixes (0x00 / 0x01, as in
+ * RFC 6962), so an internal node can never be passed off as a leaf. A level with an
+ * odd number of nodes promotes its last node unchanged to the next level.
+ *
+ * A proof is self-contained: the sibling hashes with their side, the leaf index and
+ * the tree size. It verifies against the root alone, without the rest of the tree.
+ */
+
+import crypto from "node:crypto";
+
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+export type MerkleSibling = {
+  hash: string;
+  position: "left" | "right"; // Side of the sibling relative to the running hash
+};
+
+export type MerkleProof = {
+  leaf_index: number;
+  tree_size: number;
+  siblings: MerkleSibling[];
+};
+
+export function merkleLeafHash(data: string): string {
+  return crypto.createHash("sha256").update(LEAF_PREFIX).update(data, "utf8").digest("hex");
+}
+
+export function merkleNodeHash(left: string, right: string): string {
+  return crypto
+    .createHash("sha256")
+    .update(NODE_PREFIX)
+    .update(Buffer.from(left, "hex"))
+    .update(Buffer.from(right, "hex"))
+    .digest("hex");
+}
+
+/**
+ * Build every level of the tree, leaves first and the root level last.
+ */
+export function buildMerkleTree(leafHashes: string[]): string[][] {
+  if (leafHashes.length === 0) {
+    return [];
+  }
+
+  let level = leafHashes;
+  const tree: string[][] = [level];
+  while (level.length > 1) {
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? merkleNodeHash(level[i], level[i + 1]) : level[i]);
+    }
+    tree.push(next);
+    level = next;
+  }
+  return tree;
+}
+
+/**
+ * Inclusion proof for the leaf at `leafIndex`. Levels where the node was promoted
+ * contribute no sibling.
+ */
+export function generateMerkleProof(tree: string[][], leafIndex: number): MerkleProof | null {
+  const treeSize = tree[0]?.length ?? 0;
+  if (!Number.isInteger(leafIndex) || leafIndex < 0 || leafIndex >= treeSize) {
+    return null;
+  }
+
+  const siblings: MerkleSibling[] = [];
+  let index = leafIndex;
+  for (let level = 0; level < tree.length - 1; level++) {
+    const siblingIndex = index % 2 === 1 ? index - 1 : index + 1;
+    if (siblingIndex < tree[level].length) {
+      siblings.push({
+        hash: tree[level][siblingIndex],
+        position: siblingIndex < index ? "left" : "right",
+      });
+    }
+    index = Math.floor(index / 2);
+  }
+
+  return { leaf_index: leafIndex, tree_size: treeSize, siblings };
+}
+
+/**
+ * Verify a leaf hash against a Merkle root. The sibling sides must be the ones the
+ * leaf index and tree size imply, so a proof cannot be replayed for another position.
+ */
+export function verifyMerkleProof(leafHash: string, proof: MerkleProof, root: string): boolean {
+  const { leaf_index, tree_size, siblings } = proof;
+  if (
+    !Number.isInteger(leaf_index) ||
+    !Number.isInteger(tree_size) ||
+    leaf_index < 0 ||
+    leaf_index >= tree_size ||
+    !Array.isArray(siblings)
+  ) {
+    return false;
+  }
+
+  let hash = leafHash;
+  let index = leaf_index;
+  let size = tree_size;
+  let next = 0;
+
+  while (size > 1) {
+    const promoted = index === size - 1 && size % 2 === 1;
+    if (!promoted) {
+      const sibling = siblings[next++];
+      const expected = index % 2 === 1 ? "left" : "right";
+      if (!sibling || sibling.position !== expected || typeof sibling.hash !== "string") {
+        return false;
+      }
+      hash =
+        expected === "left"
+          ? merkleNodeHash(sibling.hash, hash)
+          : merkleNodeHash(hash, sibling.hash);
+    }
+    index = Math.floor(index / 2);
+    size = Math.ceil(size / 2);
+  }
+
+  return next === siblings.length && hash === root;
+}
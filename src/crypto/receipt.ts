@@ -5,15 +5,43 @@
  * Receipts are the primitive that makes Dotto an authority layer, not just a governance tool.
  *
  * Design principles:
- * - Receipts are cryptographically verifiable (HMAC-SHA256, upgradeable to asymmetric)
+ * - Receipts are cryptographically verifiable (HMAC-SHA256, Ed25519 or ECDSA P-256)
+ * - Asymmetric receipts verify with a public key, so verifiers cannot mint receipts
  * - Receipts are immutable records of authorization decisions
  * - No production change without a valid receipt
  */
 
-import crypto from "node:crypto";
+import crypto, { KeyObject } from "node:crypto";
+
+import {
+  Signer,
+  SigningAlgorithm,
+  VerificationKey,
+  hasSigningKeyInEnv,
+  signerFromEnv,
+  verifyWithEnvFallback,
+} from "./signing.js";
+import { KeyRegistry, loadKeyRegistry, resolveKey, saveKeyRegistry } from "./keyRegistry.js";
+import { canonicalHash } from "./canonical.js";
+import type { ReceiptBinding } from "./binding.js";
+import type { ProofBackend } from "../engine/proof/ProofBackend.js";
+import type { ProofRef } from "../engine/core/types.js";
+import { ReceiptApproval, createApproval, tallyApprovals } from "./approvals.js";
+import { DeployContext, ReceiptCondition, unmetConditions } from "./conditions.js";
+import {
+  RevocationEntry,
+  RevocationList,
+  findRevocation,
+  loadRevocationList,
+  revocationListPath,
+  revocationListPayload,
+  saveRevocationList,
+  signRevocationList,
+} from "./revocation.js";
 
 export type ReceiptVersion = "1.0" | "1.1";
 
+// Legacy anchoring record, superseded by the backend-neutral `proof` field
 export type HederaProof = {
   backend: "hedera";
   topic_id: string;
@@ -27,7 +55,8 @@ export type AuthorizationReceipt = {
   // Metadata
   version: ReceiptVersion;
   issuer: string;
-  algorithm: "hmac-sha256";
+  algorithm: SigningAlgorithm;
+  kid?: string; // ID of the key that signed this receipt
   issued_at: string;
   expires_at: string | null;
 
@@ -44,15 +73,43 @@ export type AuthorizationReceipt = {
     similarity: number;
   };
 
+  // Policy rules that fired for this change (deterministic, from rules.json)
+  policy_rules_fired?: ReceiptPolicyRule[];
+
+  // Binding: the exact checkout this authorization applies to
+  commit_sha?: string;
+  base_ref?: string;
+  repository?: string;
+  artifact_hashes?: Record<string, string>; // Canonical hash per artifact (graph, drift, ...)
+
+  // Conditions checked at deploy time (environment, feature flags, deploy window)
+  conditions?: ReceiptCondition[];
+
+  // Multi-party approval: quorum is signed, approvals are appended afterwards
+  approvals_required?: number;
+  approvals?: ReceiptApproval[];
+
   // Integrity
   artifacts_hash: string;
   signature: string;
 
-  // Hedera proof (optional - only if anchored)
+  // Anchoring proof from the configured proof backend (optional - only if anchored)
+  proof?: ProofRef;
+
+  // Legacy Hedera proof on receipts anchored before `proof` existed
   hedera_proof?: HederaProof;
 };
 
-export type ReceiptPayload = Omit<AuthorizationReceipt, "signature">;
+export type ReceiptPolicyRule = {
+  rule_id: string;
+  action: "allow" | "escalate" | "block";
+  approvals_required?: number;
+};
+
+export type ReceiptPayload = Omit<
+  AuthorizationReceipt,
+  "signature" | "approvals" | "proof" | "hedera_proof"
+>;
 
 export type VerificationResult = {
   valid: boolean;
@@ -61,70 +118,262 @@ export type VerificationResult = {
     | "no_receipt"
     | "malformed_receipt"
     | "invalid_signature"
+    | "unknown_key"
+    | "revoked_key"
+    | "commit_mismatch"
+    | "artifact_mismatch"
+    | "revoked"
     | "expired"
-    | "not_approved";
+    | "not_approved"
+    | "condition_unmet"
+    | "quorum_not_met";
   message: string;
   receipt?: AuthorizationReceipt;
+  approvers?: string[]; // Approvers whose signatures verified, when a quorum applies
 };
 
 const DEFAULT_ISSUER = "dotto-ai/governor";
 const DEFAULT_EXPIRY_HOURS = 24;
 
 /**
- * Get the signing key from environment.
- * In production, this must be a secure secret.
+ * Compute SHA-256 hash of artifacts for integrity verification.
+ * Canonical: key order and generation timestamps do not affect the hash.
  */
-function getSigningKey(): string {
-  const key = process.env.DOTTO_SIGNING_KEY;
+export function computeArtifactsHash(artifacts: unknown): string {
+  return canonicalHash(artifacts);
+}
 
-  if (!key) {
-    // In production, require a proper signing key
-    if (process.env.NODE_ENV === "production") {
-      throw new Error(
-        "CRITICAL: DOTTO_SIGNING_KEY must be set in production. " +
-          "Generate with: openssl rand -base64 32"
-      );
-    }
+/**
+ * Compute a canonical hash for each artifact (graph, drift, impact, intent).
+ */
+export function computeArtifactHashes(artifacts: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(artifacts)
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => [name, canonicalHash(value)])
+  );
+}
+
+/**
+ * Whether receipts issued before binding (no commit_sha) are accepted
+ * (DOTTO_ALLOW_UNBOUND_RECEIPTS=1). Off by default.
+ */
+export function unboundReceiptsAllowedFromEnv(): boolean {
+  return ["1", "true"].includes((process.env.DOTTO_ALLOW_UNBOUND_RECEIPTS ?? "").toLowerCase());
+}
+
+/**
+ * Check a commit-bound receipt against the checkout it is being enforced on.
+ * Returns a failed result on mismatch, or null when the binding holds.
+ */
+function checkBinding(
+  receipt: AuthorizationReceipt,
+  binding: ReceiptBinding
+): VerificationResult | null {
+  const commitMismatch = (message: string): VerificationResult => ({
+    valid: false,
+    reason: "commit_mismatch",
+    message,
+    receipt,
+  });
+  const artifactMismatch = (message: string): VerificationResult => ({
+    valid: false,
+    reason: "artifact_mismatch",
+    message,
+    receipt,
+  });
 
-    // Only allow demo key in development
-    console.warn("[SECURITY WARNING] Using demo signing key. NOT FOR PRODUCTION.");
-    return "dotto-demo-key";
+  if (!binding.commit_sha) {
+    return commitMismatch("Could not determine the checked-out commit to compare against.");
+  }
+  if (receipt.commit_sha !== binding.commit_sha) {
+    return commitMismatch(
+      `Receipt was issued for commit ${receipt.commit_sha}, but the checkout is at ${binding.commit_sha}.`
+    );
+  }
+  if (receipt.repository && binding.repository && receipt.repository !== binding.repository) {
+    return commitMismatch(
+      `Receipt was issued for ${receipt.repository}, but the checkout is ${binding.repository}.`
+    );
   }
 
-  // Validate key strength (at least 32 characters)
-  if (key.length < 32) {
-    throw new Error("DOTTO_SIGNING_KEY must be at least 32 characters");
+  if (!receipt.artifact_hashes) {
+    return artifactMismatch("Receipt is not bound to artifact contents. Re-run governance.");
+  }
+  if (!binding.artifacts) {
+    return artifactMismatch("Artifacts could not be loaded from the checkout to compare against.");
+  }
+  const actual = computeArtifactHashes(binding.artifacts);
+  const mismatched = Object.entries(receipt.artifact_hashes)
+    .filter(([name, hash]) => actual[name] !== hash)
+    .map(([name]) => name);
+  if (mismatched.length > 0) {
+    return artifactMismatch(
+      `Artifacts differ from the ones that were authorized: ${mismatched.join(", ")}.`
+    );
   }
 
-  return key;
+  return null;
 }
 
 /**
- * Compute SHA-256 hash of artifacts for integrity verification.
+ * Sign a receipt payload. The payload's algorithm must match the signer.
  */
-export function computeArtifactsHash(artifacts: unknown): string {
-  const content = JSON.stringify(artifacts);
-  return crypto.createHash("sha256").update(content).digest("hex");
+export function signPayload(payload: ReceiptPayload, signer: Signer = signerFromEnv()): string {
+  if (payload.algorithm !== signer.algorithm) {
+    throw new Error(`Payload algorithm ${payload.algorithm} does not match ${signer.algorithm}`);
+  }
+  return signer.sign(JSON.stringify(payload));
+}
+
+/**
+ * Verify a receipt signature.
+ * HMAC receipts need the shared secret; asymmetric receipts need only a public key.
+ * Key material not given falls back to DOTTO_SIGNING_KEY / DOTTO_VERIFY_PUBLIC_KEY.
+ */
+export function verifySignature(receipt: AuthorizationReceipt, key: VerificationKey = {}): boolean {
+  return verifyWithEnvFallback(
+    receipt.algorithm,
+    receiptSigningData(receipt),
+    receipt.signature,
+    key,
+    "Receipt"
+  );
 }
 
 /**
- * Sign a receipt payload using HMAC-SHA256.
+ * The data the issuer and every approver sign: the receipt without its signatures
+ * and without anchoring proofs, which are added after signing.
  */
-export function signPayload(payload: ReceiptPayload): string {
-  const secret = getSigningKey();
-  return crypto.createHmac("sha256", secret).update(JSON.stringify(payload)).digest("hex");
+export function receiptSigningData(receipt: AuthorizationReceipt): string {
+  const payload: Partial<AuthorizationReceipt> = { ...receipt };
+  delete payload.signature;
+  delete payload.approvals;
+  delete payload.proof;
+  delete payload.hedera_proof;
+  return JSON.stringify(payload);
 }
 
 /**
- * Verify a receipt signature.
+ * Add an approver's signature to a receipt. A later approval by the same approver
+ * replaces the earlier one.
+ */
+export function addApproval(
+  receipt: AuthorizationReceipt,
+  approver: string,
+  signer: Signer
+): AuthorizationReceipt {
+  const approval = createApproval(receiptSigningData(receipt), approver, signer);
+  return {
+    ...receipt,
+    approvals: [...(receipt.approvals ?? []).filter((a) => a.approver !== approver), approval],
+  };
+}
+
+/**
+ * Resolve the key for a signed record. With a registry loaded, the record must name
+ * a registered key and only that key is used; without one, the caller's key is.
+ */
+function resolveVerificationKey(
+  record: { kid?: string; algorithm: SigningAlgorithm },
+  signedAt: string,
+  registry: KeyRegistry | null,
+  publicKey?: KeyObject
+): { key: VerificationKey } | { reason: "unknown_key" | "revoked_key"; message: string } {
+  if (!registry) return { key: { publicKey } };
+  if (!record.kid) {
+    return {
+      reason: "unknown_key",
+      message:
+        "Record does not name its signing key (kid), so it cannot be checked against the key registry.",
+    };
+  }
+
+  const resolution = resolveKey(registry, record.kid, record.algorithm, signedAt, "signer");
+  if (resolution.status !== "trusted") {
+    return { reason: resolution.status, message: resolution.message };
+  }
+  return { key: resolution.verificationKey };
+}
+
+/**
+ * Verify the revocation list signature, and that it is not older than the latest list
+ * the key registry has recorded. Throws when the list cannot be trusted: an
+ * unverifiable or replayed list must not silently un-revoke receipts.
+ */
+export function verifyRevocationList(
+  list: RevocationList,
+  options?: { public_key?: KeyObject; key_registry?: KeyRegistry | null }
+): void {
+  const registry = options?.key_registry !== undefined ? options.key_registry : loadKeyRegistry();
+  const resolved = resolveVerificationKey(list, list.updated_at, registry, options?.public_key);
+  if ("reason" in resolved) {
+    throw new Error(`Revocation list key is not trusted: ${resolved.message}`);
+  }
+  const data = revocationListPayload(list);
+  if (
+    !verifyWithEnvFallback(list.algorithm, data, list.signature, resolved.key, "Revocation list")
+  ) {
+    throw new Error("Revocation list signature does not match");
+  }
+  const latest = registry?.revocation_list_sequence;
+  if (latest !== undefined && (list.sequence ?? 0) < latest) {
+    throw new Error(
+      `Revocation list has sequence ${list.sequence ?? 0}, but list ${latest} has already been issued`
+    );
+  }
+}
+
+/**
+ * Revoke a receipt before it expires. Appends to the signed revocation list
+ * and re-signs it with the current receipt signing key, which must be a real key:
+ * a list signed with the demo secret could be forged by anyone.
  */
-export function verifySignature(receipt: AuthorizationReceipt): boolean {
-  const { signature, ...payload } = receipt;
-  const expectedSignature = signPayload(payload as ReceiptPayload);
-  return crypto.timingSafeEqual(
-    Buffer.from(signature, "hex"),
-    Buffer.from(expectedSignature, "hex")
+export function revokeReceipt(
+  receipt: AuthorizationReceipt,
+  revocation: {
+    revoked_by: string;
+    revoked_by_self_asserted?: boolean;
+    reason: string;
+    proof?: RevocationEntry["proof"];
+  },
+  filePath: string = revocationListPath()
+): RevocationEntry {
+  if (!hasSigningKeyInEnv()) {
+    throw new Error(
+      "Refusing to issue a revocation list with the demo signing key; set DOTTO_SIGNING_PRIVATE_KEY or DOTTO_SIGNING_KEY"
+    );
+  }
+
+  const registry = loadKeyRegistry();
+  const existing = loadRevocationList(filePath);
+  if (existing) {
+    verifyRevocationList(existing, { key_registry: registry });
+    const already = findRevocation(existing, receipt.signature);
+    if (already) return already;
+  } else if (registry?.revocation_list) {
+    // Starting a fresh list would drop every earlier revocation
+    throw new Error(`Revocation list ${filePath} is missing, but one has already been issued`);
+  }
+
+  const entry: RevocationEntry = {
+    change_id: receipt.change_id,
+    receipt_signature: receipt.signature,
+    revoked_by: revocation.revoked_by,
+    ...(revocation.revoked_by_self_asserted ? { revoked_by_self_asserted: true } : {}),
+    revoked_at: new Date().toISOString(),
+    reason: revocation.reason,
+    ...(revocation.proof ? { proof: revocation.proof } : {}),
+  };
+  const sequence = Math.max(existing?.sequence ?? 0, registry?.revocation_list_sequence ?? 0) + 1;
+  saveRevocationList(
+    signRevocationList([...(existing?.entries ?? []), entry], sequence, signerFromEnv()),
+    filePath
   );
+  if (registry) {
+    saveKeyRegistry({ ...registry, revocation_list: true, revocation_list_sequence: sequence });
+  }
+  return entry;
 }
 
 /**
@@ -146,6 +395,11 @@ export type CreateReceiptOptions = {
     timestamp: string;
     similarity: number;
   };
+  policy_rules_fired?: ReceiptPolicyRule[];
+  conditions?: ReceiptCondition[];
+  commit_sha?: string;
+  base_ref?: string;
+  repository?: string;
   issuer?: string;
   expiry_hours?: number | null;
 };
@@ -156,11 +410,17 @@ export type CreateReceiptOptions = {
 export function createReceipt(options: CreateReceiptOptions): AuthorizationReceipt {
   const now = new Date();
   const expiryHours = options.expiry_hours ?? DEFAULT_EXPIRY_HOURS;
+  const signer = signerFromEnv();
+  const approvalsRequired = Math.max(
+    0,
+    ...(options.policy_rules_fired ?? []).map((r) => r.approvals_required ?? 0)
+  );
 
   const payload: ReceiptPayload = {
     version: "1.1",
     issuer: options.issuer ?? DEFAULT_ISSUER,
-    algorithm: "hmac-sha256",
+    algorithm: signer.algorithm,
+    kid: signer.kid,
     issued_at: now.toISOString(),
     expires_at: expiryHours
       ? new Date(now.getTime() + expiryHours * 60 * 60 * 1000).toISOString()
@@ -170,10 +430,26 @@ export function createReceipt(options: CreateReceiptOptions): AuthorizationRecei
     risk_level: options.risk_level,
     auto_authorized: options.auto_authorized ?? false,
     precedent_match: options.precedent_match,
+    policy_rules_fired: options.policy_rules_fired?.map((r) => ({
+      rule_id: r.rule_id,
+      action: r.action,
+      ...(r.approvals_required ? { approvals_required: r.approvals_required } : {}),
+    })),
+    ...(options.conditions && options.conditions.length > 0
+      ? { conditions: options.conditions }
+      : {}),
+    commit_sha: options.commit_sha,
+    base_ref: options.base_ref,
+    repository: options.repository,
+    artifact_hashes:
+      options.artifacts && typeof options.artifacts === "object"
+        ? computeArtifactHashes(options.artifacts as Record<string, unknown>)
+        : undefined,
     artifacts_hash: computeArtifactsHash(options.artifacts),
+    ...(approvalsRequired > 0 ? { approvals_required: approvalsRequired } : {}),
   };
 
-  const signature = signPayload(payload);
+  const signature = signPayload(payload, signer);
 
   return {
     ...payload,
@@ -186,7 +462,17 @@ export function createReceipt(options: CreateReceiptOptions): AuthorizationRecei
  */
 export function verifyReceipt(
   receipt: AuthorizationReceipt | null | undefined,
-  options?: { require_approval?: boolean }
+  options?: {
+    require_approval?: boolean;
+    public_key?: KeyObject;
+    key_registry?: KeyRegistry | null; // Defaults to the registry file; null disables lookup.
+    // With a registry, the receipt must name a registered key and public_key is not used
+    binding?: ReceiptBinding; // The checkout being deployed; bound receipts fail without it
+    allow_unbound?: boolean; // Accept receipts without commit_sha (default: DOTTO_ALLOW_UNBOUND_RECEIPTS)
+    revocations?: RevocationList | null; // Defaults to the revocation list file; null skips
+    // A missing file fails once the key registry records that a list has been issued
+    context?: DeployContext; // Where and how the receipt is being used, for its conditions
+  }
 ): VerificationResult {
   const requireApproval = options?.require_approval ?? true;
 
@@ -218,20 +504,92 @@ export function verifyReceipt(
     }
   }
 
+  // Resolve the signing key through the registry when one is in use
+  let registry: KeyRegistry | null;
+  let verificationKey: VerificationKey;
+  try {
+    registry = options?.key_registry !== undefined ? options.key_registry : loadKeyRegistry();
+    const resolved = resolveVerificationKey(
+      receipt,
+      receipt.issued_at,
+      registry,
+      options?.public_key
+    );
+    if ("reason" in resolved) {
+      return { valid: false, reason: resolved.reason, message: resolved.message, receipt };
+    }
+    verificationKey = resolved.key;
+  } catch (err) {
+    return {
+      valid: false,
+      reason: "unknown_key",
+      message: `Key registry could not be read: ${err instanceof Error ? err.message : String(err)}`,
+      receipt,
+    };
+  }
+
   // Verify signature
   try {
-    if (!verifySignature(receipt)) {
+    if (!verifySignature(receipt, verificationKey)) {
       return {
         valid: false,
         reason: "invalid_signature",
         message: "Receipt signature does not match. Authorization cannot be verified.",
       };
     }
-  } catch {
+  } catch (err) {
     return {
       valid: false,
       reason: "invalid_signature",
-      message: "Receipt signature verification failed.",
+      message: `Receipt signature verification failed: ${err instanceof Error ? err.message : String(err)}`,
+    };
+  }
+
+  // Check the receipt has not been revoked (fail closed if the list cannot be trusted)
+  try {
+    const revocations =
+      options?.revocations !== undefined ? options.revocations : loadRevocationList();
+    if (!revocations && options?.revocations === undefined && registry?.revocation_list) {
+      throw new Error(
+        `${revocationListPath()} is missing, but the key registry records that one has been issued`
+      );
+    }
+    if (revocations) {
+      verifyRevocationList(revocations, {
+        public_key: options?.public_key,
+        key_registry: registry,
+      });
+      const entry = findRevocation(revocations, receipt.signature);
+      if (entry) {
+        return {
+          valid: false,
+          reason: "revoked",
+          message: `Receipt was revoked by ${entry.revoked_by}${entry.revoked_by_self_asserted ? " (self-asserted)" : ""} at ${entry.revoked_at}: ${entry.reason}`,
+          receipt,
+        };
+      }
+    }
+  } catch (err) {
+    return {
+      valid: false,
+      reason: "revoked",
+      message: `Revocation list could not be verified: ${err instanceof Error ? err.message : String(err)}`,
+      receipt,
+    };
+  }
+
+  // Binding policy: a receipt bound to a commit is always checked against the checkout;
+  // an unbound (pre-binding or legacy) receipt is accepted only when explicitly allowed
+  if (receipt.commit_sha) {
+    const mismatch = checkBinding(receipt, options?.binding ?? {});
+    if (mismatch) return mismatch;
+  } else if (!(options?.allow_unbound ?? unboundReceiptsAllowedFromEnv())) {
+    return {
+      valid: false,
+      reason: "commit_mismatch",
+      message:
+        "Receipt is not bound to a commit. Re-run governance, or set DOTTO_ALLOW_UNBOUND_RECEIPTS=1 to accept receipts issued before binding.",
+      receipt,
     };
   }
 
@@ -254,6 +612,40 @@ export function verifyReceipt(
     };
   }
 
+  // Check the receipt's conditions hold for this deployment
+  const unmet = unmetConditions(receipt.conditions ?? [], options?.context ?? {});
+  if (unmet.length > 0) {
+    return {
+      valid: false,
+      reason: "condition_unmet",
+      message: `Receipt conditions not met: ${unmet.map((c) => c.message).join(" ")}`,
+      receipt,
+    };
+  }
+
+  // Check the approver quorum required by the fired policy rules
+  if (receipt.approvals_required) {
+    const tally = tallyApprovals(receipt.approvals ?? [], receiptSigningData(receipt), registry);
+    if (tally.approvers.length < receipt.approvals_required) {
+      const signed = tally.approvers.length > 0 ? ` (${tally.approvers.join(", ")})` : "";
+      const rejected = tally.rejected.map((r) => ` ${r.approver}: ${r.message}`).join("");
+      return {
+        valid: false,
+        reason: "quorum_not_met",
+        message: `Receipt needs ${receipt.approvals_required} approvals, has ${tally.approvers.length}${signed}.${rejected}`,
+        receipt,
+        approvers: tally.approvers,
+      };
+    }
+    return {
+      valid: true,
+      reason: "verified",
+      message: `Receipt verified with approvals from ${tally.approvers.join(", ")}. Deployment authorized.`,
+      receipt,
+      approvers: tally.approvers,
+    };
+  }
+
   return {
     valid: true,
     reason: "verified",
@@ -270,6 +662,7 @@ export function formatReceiptForDisplay(receipt: AuthorizationReceipt): string {
     `Version:        ${receipt.version}`,
     `Issuer:         ${receipt.issuer}`,
     `Algorithm:      ${receipt.algorithm}`,
+    ...(receipt.kid ? [`Key ID:         ${receipt.kid}`] : []),
     `Issued:         ${receipt.issued_at}`,
     `Expires:        ${receipt.expires_at || "Never"}`,
     ``,
@@ -285,12 +678,49 @@ export function formatReceiptForDisplay(receipt: AuthorizationReceipt): string {
     );
   }
 
+  if (receipt.commit_sha) {
+    lines.push(
+      `Commit:         ${receipt.commit_sha.slice(0, 12)}${receipt.base_ref ? ` (base ${receipt.base_ref})` : ""}`
+    );
+  }
+
+  if (receipt.repository) {
+    lines.push(`Repository:     ${receipt.repository}`);
+  }
+
+  if (receipt.policy_rules_fired && receipt.policy_rules_fired.length > 0) {
+    lines.push(
+      `Policy Rules:   ${receipt.policy_rules_fired.map((r) => `${r.rule_id} (${r.action})`).join(", ")}`
+    );
+  }
+
+  if (receipt.conditions && receipt.conditions.length > 0) {
+    // One condition text can yield several checks; show each text once
+    const texts = [...new Set(receipt.conditions.map((c) => c.text))];
+    lines.push(`Conditions:     ${texts.join("; ")}`);
+  }
+
+  if (receipt.approvals_required) {
+    const approvers = (receipt.approvals ?? []).map((a) => a.approver);
+    lines.push(
+      `Approvals:      ${approvers.length}/${receipt.approvals_required}${approvers.length > 0 ? ` (${approvers.join(", ")})` : ""}`
+    );
+  }
+
   lines.push(
     ``,
     `Artifacts Hash: ${receipt.artifacts_hash.slice(0, 16)}...`,
     `Signature:      ${receipt.signature.slice(0, 16)}...`
   );
 
+  if (receipt.proof) {
+    lines.push(
+      `Proof:          ${receipt.proof.backend} ${receipt.proof.link || receipt.proof.id}`
+    );
+  } else if (receipt.hedera_proof) {
+    lines.push(`Proof:          hedera ${receipt.hedera_proof.hashscan_link}`);
+  }
+
   return lines.join("\n");
 }
 
@@ -329,77 +759,38 @@ export function upgradeLegacyReceipt(legacy: {
 }
 
 /**
- * Anchor a receipt to Hedera Consensus Service.
- * Returns the receipt with hedera_proof populated.
+ * Anchor a receipt through a proof backend (DOTTO_PROOF_BACKEND, see proofBackendFromEnv).
+ * Returns the receipt with `proof` populated, or unchanged if anchoring fails.
+ * The proof is outside the signed payload, so anchoring never invalidates the signature.
  */
-export async function anchorReceiptToHedera(
-  receipt: AuthorizationReceipt
+export async function anchorReceipt(
+  receipt: AuthorizationReceipt,
+  backend: ProofBackend
 ): Promise<AuthorizationReceipt> {
-  // Check if Hedera credentials are configured
-  const accountId = process.env.HEDERA_ACCOUNT_ID;
-  const privateKey = process.env.HEDERA_PRIVATE_KEY;
-  const topicId = process.env.HEDERA_TOPIC_ID;
-
-  if (!accountId || !privateKey || !topicId) {
-    console.warn(
-      "Hedera not configured - receipt will not be anchored. Set HEDERA_ACCOUNT_ID, HEDERA_PRIVATE_KEY, and HEDERA_TOPIC_ID in .env"
-    );
-    return receipt;
-  }
-
   try {
-    // Dynamic import to avoid issues if @hashgraph/sdk is not installed
-    const { Client, TopicMessageSubmitTransaction, AccountId, PrivateKey } =
-      await import("@hashgraph/sdk");
-
-    const network = process.env.HEDERA_NETWORK || "testnet";
-    const client = network === "testnet" ? Client.forTestnet() : Client.forMainnet();
-
-    client.setOperator(AccountId.fromString(accountId), PrivateKey.fromString(privateKey));
-
-    // Create message with receipt data
-    const message = JSON.stringify({
-      type: "authorization-receipt",
-      version: receipt.version,
-      change_id: receipt.change_id,
-      ruling: receipt.ruling,
-      risk_level: receipt.risk_level,
-      artifacts_hash: receipt.artifacts_hash,
-      signature: receipt.signature,
-      issued_at: receipt.issued_at,
-    });
-
-    const transaction = new TopicMessageSubmitTransaction({
-      topicId: topicId,
-      message: message,
-    });
-
-    const response = await transaction.execute(client);
-    const txReceipt = await response.getReceipt(client);
-
-    const transactionId = response.transactionId.toString();
-    const sequenceNumber = txReceipt.topicSequenceNumber?.toString() || "unknown";
-
-    await client.close();
-
-    // Add Hedera proof to receipt
-    const anchoredReceipt: AuthorizationReceipt = {
-      ...receipt,
-      hedera_proof: {
-        backend: "hedera",
-        topic_id: topicId,
-        sequence_number: sequenceNumber,
-        transaction_id: transactionId,
-        timestamp: new Date().toISOString(),
-        hashscan_link: `https://hashscan.io/${network}/topic/${topicId}/message/${sequenceNumber}`,
+    const proof = await backend.record({
+      nodeId: `receipt:${receipt.change_id}`,
+      eventType: "created",
+      hash: crypto.createHash("sha256").update(receiptSigningData(receipt)).digest("hex"),
+      metadata: {
+        type: "authorization-receipt",
+        version: receipt.version,
+        change_id: receipt.change_id,
+        ruling: receipt.ruling,
+        risk_level: receipt.risk_level,
+        artifacts_hash: receipt.artifacts_hash,
+        signature: receipt.signature,
+        issued_at: receipt.issued_at,
+        ...(receipt.commit_sha ? { commit_sha: receipt.commit_sha } : {}),
       },
-    };
+      timestamp: new Date().toISOString(),
+    });
 
-    console.log(`✅ Receipt anchored to Hedera: ${anchoredReceipt.hedera_proof!.hashscan_link}`);
+    console.log(`✅ Receipt anchored via ${backend.name}: ${backend.getLink(proof)}`);
 
-    return anchoredReceipt;
+    return { ...receipt, proof };
   } catch (error) {
-    console.error("Failed to anchor receipt to Hedera:", error);
+    console.error(`Failed to anchor receipt via ${backend.name}:`, error);
     return receipt;
   }
 }
@@ -0,0 +1,124 @@
+/**
+ * Receipt Revocation List
+ *
+ * Lets a human withdraw an approve receipt before it expires.
+ * The list is a signed JSON file (src/memory/revocations.json, or DOTTO_REVOCATION_LIST),
+ * signed with the same key as receipts so it cannot be edited to un-revoke a receipt.
+ *
+ * Format:
+ *   {
+ *     "version": "1.0",
+ *     "updated_at": "2026-01-01T00:00:00.000Z",
+ *     "sequence": 3,
+ *     "entries": [
+ *       {
+ *         "change_id": "change-123",
+ *         "receipt_signature": "ab12...",
+ *         "revoked_by": "alice",
+ *         "revoked_by_self_asserted": true,
+ *         "revoked_at": "2026-01-01T00:00:00.000Z",
+ *         "reason": "approved against the wrong baseline"
+ *       }
+ *     ],
+ *     "algorithm": "ed25519",
+ *     "kid": "fef9d4a8492040fb",
+ *     "signature": "..."
+ *   }
+ *
+ * Entries identify a receipt by its signature, so re-issuing a receipt for the same
+ * change after revocation yields a fresh, valid receipt.
+ *
+ * `sequence` is signed and grows by one with every list issued. The key registry records
+ * the latest sequence, so replaying an older (validly signed) list is rejected.
+ * `revoked_by_self_asserted` marks a `revoked_by` that was taken from the request as-is.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+
+import { ProofRef } from "../engine/core/types.js";
+import { Signer, SigningAlgorithm } from "./signing.js";
+
+export const DEFAULT_REVOCATION_LIST_PATH = "src/memory/revocations.json";
+
+export type RevocationEntry = {
+  change_id: string;
+  receipt_signature: string;
+  revoked_by: string;
+  revoked_by_self_asserted?: boolean; // revoked_by was not authenticated
+  revoked_at: string;
+  reason: string;
+  proof?: ProofRef; // Set when the revocation was anchored through a proof backend
+};
+
+export type RevocationList = {
+  version: "1.0";
+  updated_at: string;
+  sequence?: number; // Absent only on lists issued before sequencing
+  entries: RevocationEntry[];
+  algorithm: SigningAlgorithm;
+  kid?: string;
+  signature: string;
+};
+
+export function revocationListPath(): string {
+  return path.resolve(process.env.DOTTO_REVOCATION_LIST ?? DEFAULT_REVOCATION_LIST_PATH);
+}
+
+/**
+ * Load the revocation list. Returns null when no list exists; verifiers treat that as
+ * "nothing revoked yet" only until the key registry records that a list was issued.
+ */
+export function loadRevocationList(filePath: string = revocationListPath()): RevocationList | null {
+  if (!existsSync(filePath)) return null;
+
+  const data = JSON.parse(readFileSync(filePath, "utf8"));
+  if (!data || !Array.isArray(data.entries) || typeof data.signature !== "string") {
+    throw new Error(`Revocation list ${filePath} must contain "entries" and a "signature"`);
+  }
+  return data as RevocationList;
+}
+
+export function saveRevocationList(
+  list: RevocationList,
+  filePath: string = revocationListPath()
+): void {
+  writeFileSync(filePath, JSON.stringify(list, null, 2) + "\n", "utf8");
+}
+
+/**
+ * The bytes covered by the list signature.
+ */
+export function revocationListPayload(list: Omit<RevocationList, "signature">): string {
+  const { version, updated_at, sequence, entries, algorithm, kid } = list;
+  return JSON.stringify({ version, updated_at, sequence, entries, algorithm, kid });
+}
+
+/**
+ * Build and sign a list from its entries.
+ */
+export function signRevocationList(
+  entries: RevocationEntry[],
+  sequence: number,
+  signer: Signer
+): RevocationList {
+  const unsigned: Omit<RevocationList, "signature"> = {
+    version: "1.0",
+    updated_at: new Date().toISOString(),
+    sequence,
+    entries,
+    algorithm: signer.algorithm,
+    ...(signer.kid ? { kid: signer.kid } : {}),
+  };
+  return { ...unsigned, signature: signer.sign(revocationListPayload(unsigned)) };
+}
+
+/**
+ * Find the revocation entry for a receipt, if any.
+ */
+export function findRevocation(
+  list: RevocationList,
+  receiptSignature: string
+): RevocationEntry | undefined {
+  return list.entries.find((entry) => entry.receipt_signature === receiptSignature);
+}
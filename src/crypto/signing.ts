@@ -0,0 +1,252 @@
+/**
+ * Signing Primitives
+ *
+ * Generic sign/verify helpers shared by receipts and any other signed dotto record.
+ *
+ * - hmac-sha256: shared secret (DOTTO_SIGNING_KEY). Anyone who can verify can also sign.
+ * - ed25519 / ecdsa-p256: private key on the governor only, public key for verifiers.
+ *
+ * Signatures are hex encoded. ECDSA uses the fixed-size IEEE P1363 encoding.
+ */
+
+import crypto, { KeyObject } from "node:crypto";
+import { readFileSync } from "node:fs";
+
+export type SigningAlgorithm = "hmac-sha256" | "ed25519" | "ecdsa-p256";
+
+export type Signer = {
+  algorithm: SigningAlgorithm;
+  kid?: string;
+  sign(data: string): string;
+};
+
+/**
+ * Key material for verification. Only the part matching the algorithm is needed.
+ */
+export type VerificationKey = {
+  secret?: string;
+  publicKey?: KeyObject;
+};
+
+/**
+ * Read a PEM value that may be given inline or as a path to a file.
+ */
+function readPem(value: string): string {
+  return value.includes("-----BEGIN") ? value : readFileSync(value, "utf8");
+}
+
+/**
+ * Load a public key (PEM text or file path).
+ */
+export function loadPublicKey(pemOrPath: string): KeyObject {
+  return crypto.createPublicKey(readPem(pemOrPath));
+}
+
+/**
+ * Load a private key (PEM text or file path).
+ */
+export function loadPrivateKey(pemOrPath: string): KeyObject {
+  return crypto.createPrivateKey(readPem(pemOrPath));
+}
+
+/**
+ * Determine the signing algorithm for an asymmetric key.
+ */
+export function algorithmForKey(key: KeyObject): SigningAlgorithm {
+  if (key.asymmetricKeyType === "ed25519") return "ed25519";
+  if (key.asymmetricKeyType === "ec" && key.asymmetricKeyDetails?.namedCurve === "prime256v1") {
+    return "ecdsa-p256";
+  }
+  throw new Error(
+    `Unsupported signing key type: ${key.asymmetricKeyType}. Use an Ed25519 or P-256 key.`
+  );
+}
+
+/**
+ * Stable key ID: first 16 hex chars of the SHA-256 of the DER-encoded public key.
+ */
+export function keyIdFor(key: KeyObject): string {
+  const publicKey = key.type === "private" ? crypto.createPublicKey(key) : key;
+  const der = publicKey.export({ type: "spki", format: "der" });
+  return crypto.createHash("sha256").update(der).digest("hex").slice(0, 16);
+}
+
+/**
+ * Sign data with the given algorithm and key.
+ */
+export function signData(
+  algorithm: SigningAlgorithm,
+  data: string,
+  key: string | KeyObject
+): string {
+  if (algorithm === "hmac-sha256") {
+    return crypto
+      .createHmac("sha256", key as string)
+      .update(data)
+      .digest("hex");
+  }
+
+  const privateKey = key as KeyObject;
+  if (algorithmForKey(privateKey) !== algorithm) {
+    throw new Error(`Signing key does not match algorithm ${algorithm}`);
+  }
+  return algorithm === "ed25519"
+    ? crypto.sign(null, Buffer.from(data), privateKey).toString("hex")
+    : crypto
+        .sign("sha256", Buffer.from(data), { key: privateKey, dsaEncoding: "ieee-p1363" })
+        .toString("hex");
+}
+
+/**
+ * Verify a hex signature. Throws if the key material for the algorithm is missing.
+ */
+export function verifyData(
+  algorithm: SigningAlgorithm,
+  data: string,
+  signature: string,
+  key: VerificationKey
+): boolean {
+  if (algorithm === "hmac-sha256") {
+    if (!key.secret) throw new Error("HMAC verification requires the shared signing secret");
+    const expected = signData(algorithm, data, key.secret);
+    const actual = Buffer.from(signature, "hex");
+    return (
+      actual.length === expected.length / 2 &&
+      crypto.timingSafeEqual(actual, Buffer.from(expected, "hex"))
+    );
+  }
+
+  if (!key.publicKey) throw new Error(`${algorithm} verification requires a public key`);
+  if (algorithmForKey(key.publicKey) !== algorithm) return false;
+
+  const sig = Buffer.from(signature, "hex");
+  return algorithm === "ed25519"
+    ? crypto.verify(null, Buffer.from(data), key.publicKey, sig)
+    : crypto.verify(
+        "sha256",
+        Buffer.from(data),
+        { key: key.publicKey, dsaEncoding: "ieee-p1363" },
+        sig
+      );
+}
+
+/**
+ * Create a signer from an asymmetric private key.
+ */
+export function createKeySigner(privateKey: KeyObject, kid?: string): Signer {
+  const algorithm = algorithmForKey(privateKey);
+  return {
+    algorithm,
+    kid: kid ?? keyIdFor(privateKey),
+    sign: (data) => signData(algorithm, data, privateKey),
+  };
+}
+
+/**
+ * Create a signer from a shared HMAC secret.
+ */
+export function createSecretSigner(secret: string, kid?: string): Signer {
+  return {
+    algorithm: "hmac-sha256",
+    kid,
+    sign: (data) => signData("hmac-sha256", data, secret),
+  };
+}
+
+/**
+ * Get the HMAC signing secret from environment (DOTTO_SIGNING_KEY).
+ * In production, this must be a secure secret.
+ */
+export function signingSecretFromEnv(): string {
+  const key = process.env.DOTTO_SIGNING_KEY;
+
+  if (!key) {
+    // In production, require a proper signing key
+    if (process.env.NODE_ENV === "production") {
+      throw new Error(
+        "CRITICAL: DOTTO_SIGNING_KEY must be set in production. " +
+          "Generate with: openssl rand -base64 32"
+      );
+    }
+
+    // Only allow demo key in development
+    console.warn("[SECURITY WARNING] Using demo signing key. NOT FOR PRODUCTION.");
+    return "dotto-demo-key";
+  }
+
+  // Validate key strength (at least 32 characters)
+  if (key.length < 32) {
+    throw new Error("DOTTO_SIGNING_KEY must be at least 32 characters");
+  }
+
+  return key;
+}
+
+/**
+ * True when a real signing key is configured (DOTTO_SIGNING_PRIVATE_KEY or DOTTO_SIGNING_KEY),
+ * i.e. signerFromEnv() would not fall back to the demo secret.
+ */
+export function hasSigningKeyInEnv(): boolean {
+  return !!(process.env.DOTTO_SIGNING_PRIVATE_KEY || process.env.DOTTO_SIGNING_KEY);
+}
+
+/**
+ * Get the signer for receipts and other signed records from environment.
+ * DOTTO_SIGNING_PRIVATE_KEY (PEM or path, Ed25519 or P-256) enables asymmetric signing;
+ * otherwise receipts are signed with the DOTTO_SIGNING_KEY HMAC secret.
+ */
+export function signerFromEnv(): Signer {
+  const kid = process.env.DOTTO_SIGNING_KEY_ID || undefined;
+  const privateKey = process.env.DOTTO_SIGNING_PRIVATE_KEY;
+  if (privateKey) {
+    return createKeySigner(loadPrivateKey(privateKey), kid);
+  }
+  return createSecretSigner(signingSecretFromEnv(), kid);
+}
+
+/**
+ * Get the public key used to verify asymmetric signatures (DOTTO_VERIFY_PUBLIC_KEY, PEM or path).
+ */
+export function verificationPublicKeyFromEnv(): KeyObject | null {
+  const publicKey = process.env.DOTTO_VERIFY_PUBLIC_KEY;
+  return publicKey ? loadPublicKey(publicKey) : null;
+}
+
+/**
+ * Verify a signature, taking key material not given from DOTTO_VERIFY_PUBLIC_KEY /
+ * DOTTO_SIGNING_KEY. `what` names the record in errors.
+ *
+ * The algorithm a record claims is never trusted on its own: once a public key is
+ * configured, only that key's algorithm is accepted, so an HMAC-signed record cannot
+ * stand in for an asymmetric one. HMAC verification never uses the demo secret.
+ */
+export function verifyWithEnvFallback(
+  algorithm: SigningAlgorithm,
+  data: string,
+  signature: string,
+  key: VerificationKey,
+  what: string
+): boolean {
+  const publicKey = key.publicKey ?? (key.secret ? null : verificationPublicKeyFromEnv());
+  if (publicKey) {
+    const expected = algorithmForKey(publicKey);
+    if (algorithm !== expected) {
+      throw new Error(
+        `${what} is signed with ${algorithm}, but the verification key is ${expected}`
+      );
+    }
+    return verifyData(algorithm, data, signature, { publicKey });
+  }
+
+  if (algorithm === "hmac-sha256") {
+    const secret = key.secret ?? process.env.DOTTO_SIGNING_KEY;
+    if (!secret) {
+      throw new Error(`${what} is signed with hmac-sha256; set DOTTO_SIGNING_KEY to verify it`);
+    }
+    return verifyData("hmac-sha256", data, signature, { secret });
+  }
+
+  throw new Error(
+    `${what} is signed with ${algorithm}; provide a public key (--public-key or DOTTO_VERIFY_PUBLIC_KEY)`
+  );
+}
@@ -1,82 +1,287 @@
 /**
  * Compatibility checker
- * Detects breaking changes and drift
+ * Detects breaking changes and drift against a baseline graph
+ *
+ * Modes follow schema registry semantics:
+ * - backward: consumers on the new schema can read data written with the baseline
+ * - forward:  consumers on the baseline can read data written with the new schema
+ * - full:     both backward and forward
+ * - none:     report changes without treating any as breaking
  */
 
 import { GraphEngine } from "../graph/GraphEngine.js";
-import { CompatibilityIssue, GraphNode } from "../core/types.js";
+import { GitScanner } from "../git/GitScanner.js";
+import { TypeComparator } from "../diff/TypeComparator.js";
+import { CompatibilityIssue, GraphEdge, GraphNode } from "../core/types.js";
+
+export type CompatibilityMode = "backward" | "forward" | "full" | "none";
+
+// Which compatibility directions a single change breaks
+type Breaks = { backward: boolean; forward: boolean };
+
+const NO_BREAK: Breaks = { backward: false, forward: false };
 
 export class CompatibilityChecker {
   private graphEngine: GraphEngine;
+  private baseline?: GraphEngine;
+  private mode: CompatibilityMode;
+  private typeComparator = new TypeComparator();
 
-  constructor(graphEngine: GraphEngine) {
+  constructor(
+    graphEngine: GraphEngine,
+    options: { baseline?: GraphEngine; mode?: CompatibilityMode } = {}
+  ) {
     this.graphEngine = graphEngine;
+    this.baseline = options.baseline;
+    this.mode = options.mode ?? "backward";
+  }
+
+  /**
+   * Build a baseline engine from a graph.json committed at a git ref
+   */
+  static baselineFromGitRef(
+    graphPath: string,
+    ref: string,
+    repoPath: string = process.cwd()
+  ): GraphEngine {
+    const content = new GitScanner(repoPath).getFileAtCommit(graphPath, ref);
+    if (!content) {
+      throw new Error(`No graph found at ${ref}:${graphPath}`);
+    }
+
+    const data = JSON.parse(content);
+    const engine = new GraphEngine(null);
+    const nodes: GraphNode[] = Array.isArray(data.nodes)
+      ? data.nodes
+      : Object.values(data.nodes || {});
+    const edges: GraphEdge[] = Array.isArray(data.edges)
+      ? data.edges
+      : Object.values(data.edges || {});
+    nodes.forEach((node) => engine.addNode(node));
+    edges.forEach((edge) => engine.addEdge(edge));
+    return engine;
   }
 
   check(): CompatibilityIssue[] {
     const issues: CompatibilityIssue[] = [];
+    if (!this.baseline) return issues;
+
     const nodes = this.graphEngine.getAllNodes();
 
     for (const node of nodes) {
+      const previous = this.baseline.getNode(node.id);
+      if (!previous) continue;
+
       // Check for intent changes
-      if (node.intent) {
-        const intentIssues = this.checkIntentChanges(node);
-        issues.push(...intentIssues);
-      }
+      issues.push(...this.checkIntentChanges(previous, node));
 
       // Check for property changes
-      if (node.properties) {
-        const propertyIssues = this.checkPropertyChanges(node);
-        issues.push(...propertyIssues);
+      if (node.properties || previous.properties) {
+        issues.push(...this.checkPropertyChanges(previous, node));
       }
 
       // Check enum changes
-      if (node.type === "enum" && node.metadata.values) {
-        const enumIssues = this.checkEnumChanges(node);
-        issues.push(...enumIssues);
+      if (node.type === "enum" && (node.metadata.values || previous.metadata.values)) {
+        issues.push(...this.checkEnumChanges(previous, node));
+      }
+    }
+
+    // Removed schemas break every consumer that still references them
+    for (const previous of this.baseline.getAllNodes()) {
+      if (!this.graphEngine.getNode(previous.id)) {
+        issues.push(
+          this.issue(
+            previous.id,
+            "schema_removed",
+            { backward: true, forward: true },
+            `${previous.name} was removed`,
+            previous.name,
+            undefined
+          )
+        );
       }
     }
 
     return issues;
   }
 
-  private checkIntentChanges(node: GraphNode): CompatibilityIssue[] {
-    // In a real implementation, we'd compare with previous version
-    // For now, we flag any node with an intent as noteworthy
-    return [];
+  private checkIntentChanges(previous: GraphNode, node: GraphNode): CompatibilityIssue[] {
+    if (previous.intent === node.intent) return [];
+
+    // Intent changes never break the wire format but always deserve review
+    return [
+      {
+        nodeId: node.id,
+        type: "intent_change",
+        severity: "warning",
+        message: `Intent changed from "${previous.intent || "none"}" to "${node.intent || "none"}"`,
+        before: previous.intent,
+        after: node.intent,
+      },
+    ];
   }
 
-  private checkPropertyChanges(node: GraphNode): CompatibilityIssue[] {
+  private checkPropertyChanges(previous: GraphNode, node: GraphNode): CompatibilityIssue[] {
     const issues: CompatibilityIssue[] = [];
+    const before = new Map((previous.properties || []).map((p) => [p.name, p]));
+    const after = new Map((node.properties || []).map((p) => [p.name, p]));
+
+    for (const [name, oldProp] of before) {
+      const newProp = after.get(name);
+
+      if (!newProp) {
+        // Old readers still expect a required field that new writers no longer send
+        issues.push(
+          this.issue(
+            node.id,
+            "field_removed",
+            { backward: false, forward: oldProp.required },
+            `Property "${name}" was removed`,
+            oldProp,
+            undefined
+          )
+        );
+        continue;
+      }
 
-    if (!node.properties) return issues;
+      const relation = this.typeComparator.compare(oldProp.type, newProp.type);
+      if (relation !== "equivalent") {
+        // Widening: old readers may see values they don't know (forward).
+        // Narrowing: baseline data may hold values the new type rejects (backward).
+        issues.push(
+          this.issue(
+            node.id,
+            "type_change",
+            {
+              backward: relation !== "widening",
+              forward: relation !== "narrowing",
+            },
+            `Property "${name}" type changed from "${oldProp.type}" to "${newProp.type}"`,
+            oldProp.type,
+            newProp.type
+          )
+        );
+      }
 
-    // Check for required field additions (breaking change)
-    for (const prop of node.properties) {
-      if (prop.required) {
-        // In real implementation, compare with previous version
-        // If this is a newly required field, it's breaking
+      if (oldProp.required !== newProp.required) {
+        // Optional -> required: baseline data may omit it (backward).
+        // Required -> optional: new data may omit what old readers require (forward).
+        issues.push(
+          this.issue(
+            node.id,
+            "required_change",
+            { backward: newProp.required, forward: !newProp.required },
+            newProp.required
+              ? `Property "${name}" is now required`
+              : `Property "${name}" is now optional`,
+            oldProp.required,
+            newProp.required
+          )
+        );
       }
     }
 
+    for (const [name, newProp] of after) {
+      if (before.has(name)) continue;
+
+      // A new required field cannot be filled from baseline data
+      issues.push(
+        this.issue(
+          node.id,
+          "field_added",
+          { backward: newProp.required, forward: false },
+          newProp.required
+            ? `Required property "${name}" was added`
+            : `Optional property "${name}" was added`,
+          undefined,
+          newProp
+        )
+      );
+    }
+
     return issues;
   }
 
-  private checkEnumChanges(node: GraphNode): CompatibilityIssue[] {
+  private checkEnumChanges(previous: GraphNode, node: GraphNode): CompatibilityIssue[] {
     const issues: CompatibilityIssue[] = [];
+    const before: string[] = previous.metadata.values || [];
+    const after: string[] = node.metadata.values || [];
+
+    // Enum value removal: baseline data may still carry the value (backward)
+    for (const value of before) {
+      if (!after.includes(value)) {
+        issues.push(
+          this.issue(
+            node.id,
+            "enum_change",
+            { backward: true, forward: false },
+            `Enum value "${value}" was removed`,
+            value,
+            undefined
+          )
+        );
+      }
+    }
 
-    // Enum value removal is breaking
-    // Enum value addition is usually safe
+    // Enum value addition: old readers will not recognise the new value (forward)
+    for (const value of after) {
+      if (!before.includes(value)) {
+        issues.push(
+          this.issue(
+            node.id,
+            "enum_change",
+            { backward: false, forward: true },
+            `Enum value "${value}" was added`,
+            undefined,
+            value
+          )
+        );
+      }
+    }
 
     return issues;
   }
 
+  /**
+   * Classify a change under the configured mode.
+   * Breaking in a checked direction -> breaking; breaking only in an unchecked direction -> warning.
+   */
+  private issue(
+    nodeId: string,
+    type: CompatibilityIssue["type"],
+    breaks: Breaks,
+    message: string,
+    before: unknown,
+    after: unknown
+  ): CompatibilityIssue {
+    const checked: Breaks =
+      this.mode === "full"
+        ? { backward: true, forward: true }
+        : this.mode === "backward"
+          ? { backward: true, forward: false }
+          : this.mode === "forward"
+            ? { backward: false, forward: true }
+            : NO_BREAK;
+
+    let severity: CompatibilityIssue["severity"] = "info";
+    if ((breaks.backward && checked.backward) || (breaks.forward && checked.forward)) {
+      severity = "breaking";
+    } else if (breaks.backward || breaks.forward) {
+      severity = "warning";
+    }
+
+    const directions = [breaks.backward && "backward", breaks.forward && "forward"].filter(Boolean);
+    const suffix = directions.length > 0 ? ` (breaks ${directions.join(" and ")})` : "";
+
+    return { nodeId, type, severity, message: `${message}${suffix}`, before, after };
+  }
+
   formatCompatibilityReport(issues: CompatibilityIssue[]): string {
     if (issues.length === 0) {
       return "\n✅ No compatibility issues detected\n";
     }
 
-    let report = `\n⚠️  ${issues.length} compatibility issue(s) found:\n\n`;
+    let report = `\n⚠️  ${issues.length} compatibility issue(s) found (mode: ${this.mode}):\n\n`;
 
     const breaking = issues.filter((i) => i.severity === "breaking");
     const warnings = issues.filter((i) => i.severity === "warning");
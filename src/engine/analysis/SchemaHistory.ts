@@ -0,0 +1,173 @@
+/**
+ * Schema history
+ * Per-node timeline of schema changes across a commit range
+ *
+ * Walks first-parent commits oldest first, rescans the tree (from git objects) of
+ * every commit that touches schema files and diffs it against the previous state.
+ * Each change is attributed to its commit and, when one exists, to the governance
+ * decision recorded for that commit in decisions.json.
+ */
+
+import * as fs from "fs";
+import { GitScanner } from "../git/GitScanner.js";
+import { SchemaDiffer, SchemaDiff, SchemaChange } from "../diff/SchemaDiffer.js";
+import { GraphNode } from "../core/types.js";
+
+export const DEFAULT_HISTORY_MAX_COMMITS = 100;
+
+/**
+ * The parts of a decisions.json record the history reports
+ */
+export interface HistoryDecision {
+  change_id: string;
+  timestamp: string;
+  decision: "approve" | "block" | "escalate";
+  risk_level?: "low" | "medium" | "high";
+  human_feedback?: {
+    outcome: "accepted" | "overridden" | "modified";
+    override_decision?: "approve" | "block";
+    notes?: string;
+  };
+}
+
+export interface SchemaHistoryEntry {
+  nodeId: string;
+  commit: string;
+  author: string;
+  date: string;
+  message: string;
+  changeType: SchemaDiff["changeType"];
+  previousNodeId?: string;
+  breaking: boolean;
+  changes: SchemaChange[];
+  decision?: HistoryDecision;
+}
+
+export interface SchemaHistoryResult {
+  from: string | null; // Baseline commit (null: from the first commit)
+  to: string;
+  commitsScanned: number;
+  truncated: boolean; // More commits than maxCommits were in range
+  nodes: Record<string, SchemaHistoryEntry[]>;
+}
+
+export class SchemaHistory {
+  private git: GitScanner;
+  private decisions: HistoryDecision[];
+  private differ = new SchemaDiffer();
+
+  constructor(git: GitScanner, options: { decisions?: HistoryDecision[] } = {}) {
+    this.git = git;
+    this.decisions = options.decisions ?? [];
+  }
+
+  /**
+   * Decisions from a decisions.json file (none if it is missing)
+   */
+  static loadDecisions(memoryPath: string): HistoryDecision[] {
+    if (!fs.existsSync(memoryPath)) {
+      return [];
+    }
+    const data = JSON.parse(fs.readFileSync(memoryPath, "utf-8"));
+    return Array.isArray(data.decisions) ? data.decisions : [];
+  }
+
+  async build(
+    options: { from?: string; to?: string; maxCommits?: number; nodeId?: string } = {}
+  ): Promise<SchemaHistoryResult> {
+    const to = this.git.resolveCommit(options.to ?? "HEAD");
+    const maxCommits = options.maxCommits ?? DEFAULT_HISTORY_MAX_COMMITS;
+
+    let commits = this.git.getCommitsInRange(options.from, to);
+    let baseline = options.from ? this.git.resolveCommit(options.from) : undefined;
+    const truncated = commits.length > maxCommits;
+    if (truncated) {
+      // Keep the most recent commits; the one before them becomes the baseline
+      baseline = commits[commits.length - maxCommits - 1];
+      commits = commits.slice(-maxCommits);
+    }
+
+    let previous = baseline ? await this.git.scanCommit(baseline) : new Map<string, GraphNode>();
+    let parent = baseline;
+    const entries: SchemaHistoryEntry[] = [];
+
+    for (const commit of commits) {
+      // Only rescan commits that touch schema files
+      if (parent && this.git.getChangedFiles(parent, commit).length === 0) {
+        parent = commit;
+        continue;
+      }
+
+      const current = await this.git.scanCommit(commit);
+      const diffs = this.differ
+        .diffMany(previous, current)
+        // A file edit elsewhere changes every node's file hash; keep real changes only
+        .filter((d) => d.changeType !== "modified" || d.changes.length > 0);
+
+      if (diffs.length > 0) {
+        const attribution = {
+          commit,
+          author: this.git.getCommitAuthor(commit),
+          date: this.git.getCommitDate(commit),
+          message: this.git.getCommitMessage(commit).split("\n")[0],
+          decision: this.findDecision(commit),
+        };
+        for (const diff of diffs) {
+          entries.push({
+            nodeId: diff.nodeId,
+            ...attribution,
+            changeType: diff.changeType,
+            ...(diff.previousNodeId ? { previousNodeId: diff.previousNodeId } : {}),
+            breaking: diff.breaking,
+            changes: diff.changes,
+          });
+        }
+      }
+
+      previous = current;
+      parent = commit;
+    }
+
+    const nodes: Record<string, SchemaHistoryEntry[]> = {};
+    const selected = options.nodeId ? this.followRenames(entries, options.nodeId) : entries;
+    for (const entry of selected) {
+      (nodes[entry.nodeId] ??= []).push(entry);
+    }
+
+    return {
+      from: baseline ?? null,
+      to,
+      commitsScanned: commits.length,
+      truncated,
+      nodes,
+    };
+  }
+
+  /**
+   * Entries for a node, including those recorded under the ids it was renamed from
+   */
+  private followRenames(entries: SchemaHistoryEntry[], nodeId: string): SchemaHistoryEntry[] {
+    const ids = new Set([nodeId]);
+    // Walk newest first so each rename adds the id the node had before it
+    for (const entry of [...entries].reverse()) {
+      if (ids.has(entry.nodeId) && entry.previousNodeId) {
+        ids.add(entry.previousNodeId);
+      }
+    }
+    return entries.filter((entry) => ids.has(entry.nodeId));
+  }
+
+  /**
+   * Latest decision whose change_id is this commit (full or abbreviated SHA)
+   */
+  private findDecision(commit: string): HistoryDecision | undefined {
+    return [...this.decisions]
+      .reverse()
+      .find(
+        (d) =>
+          typeof d.change_id === "string" &&
+          d.change_id.length >= 7 &&
+          commit.startsWith(d.change_id.toLowerCase())
+      );
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Minimal glob matching for repository-relative paths
+ * Supports `**`, `*`, `?` and `{a,b}` alternation
+ */
+
+export function globToRegExp(pattern: string): RegExp {
+  let regex = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        // `**/` matches zero or more directories, a trailing `**` matches everything
+        if (pattern[i + 2] === "/") {
+          regex += "(?:.*/)?";
+          i += 2;
+        } else {
+          regex += ".*";
+          i += 1;
+        }
+      } else {
+        regex += "[^/]*";
+      }
+    } else if (char === "?") {
+      regex += "[^/]";
+    } else if (char === "{") {
+      const end = pattern.indexOf("}", i);
+      if (end === -1) {
+        regex += "\\{";
+      } else {
+        const options = pattern.slice(i + 1, end).split(",");
+        regex += `(?:${options.map((o) => o.replace(/[.+^$()|[\]\\]/g, "\\$&")).join("|")})`;
+        i = end;
+      }
+    } else {
+      regex += char.replace(/[.+^$()|[\]\\{}]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${regex}$`);
+}
+
+export function matchesGlob(filePath: string, patterns: string[]): boolean {
+  const normalized = filePath.replace(/\\/g, "/");
+  return patterns.some((p) => globToRegExp(p).test(normalized));
+}
@@ -18,11 +18,19 @@ export interface GraphNode {
   lastModified: string;
 }
 
-export interface PropertyInfo {
+export interface PropertyInfo extends OwnershipAnnotations {
   name: string;
   type: string;
   required: boolean;
   description?: string;
+  renamedFrom?: string; // Parsed from @renamedFrom on the property
+}
+
+// Parsed from @tags / @system / @owner JSDoc tags or the ownership mapping file
+export interface OwnershipAnnotations {
+  tags?: string[];
+  system?: string;
+  owner?: string;
 }
 
 export interface GraphEdge {
@@ -71,7 +79,14 @@ export interface ProvenanceChain {
 
 export interface CompatibilityIssue {
   nodeId: string;
-  type: "type_change" | "enum_change" | "required_change" | "intent_change";
+  type:
+    | "type_change"
+    | "enum_change"
+    | "required_change"
+    | "intent_change"
+    | "field_added"
+    | "field_removed"
+    | "schema_removed";
   severity: "breaking" | "warning" | "info";
   message: string;
   before?: any;
@@ -0,0 +1,206 @@
+/**
+ * Rename detection
+ * Pairs removed and added fields/schemas that are likely the same thing under a new name
+ */
+
+import { GraphNode, PropertyInfo } from "../core/types.js";
+import { TypeComparator } from "./TypeComparator.js";
+
+export interface RenameMatch<T> {
+  before: T;
+  after: T;
+  confidence: number; // 0-1
+  signals: string[]; // Which heuristics contributed
+}
+
+// Weights for field rename scoring (an explicit @renamedFrom short-circuits to 1.0)
+const FIELD_WEIGHTS = {
+  type: 0.4,
+  position: 0.2,
+  name: 0.25,
+  description: 0.15,
+};
+
+// Weights for schema rename scoring
+const SCHEMA_WEIGHTS = {
+  properties: 0.6,
+  name: 0.2,
+  file: 0.2,
+};
+
+export class RenameDetector {
+  private readonly threshold: number;
+  private typeComparator = new TypeComparator();
+
+  constructor(threshold: number = 0.7) {
+    this.threshold = threshold;
+  }
+
+  /**
+   * Match removed properties to added properties of the same schema
+   */
+  matchProperties(
+    removed: PropertyInfo[],
+    added: PropertyInfo[],
+    oldProps: PropertyInfo[],
+    newProps: PropertyInfo[]
+  ): RenameMatch<PropertyInfo>[] {
+    const candidates: RenameMatch<PropertyInfo>[] = [];
+
+    for (const before of removed) {
+      for (const after of added) {
+        if (after.renamedFrom === before.name) {
+          candidates.push({ before, after, confidence: 1, signals: ["@renamedFrom"] });
+          continue;
+        }
+
+        // Without an annotation, a rename must keep the same type
+        if (this.typeComparator.compare(before.type, after.type) !== "equivalent") continue;
+
+        const signals = ["same type"];
+        let score = FIELD_WEIGHTS.type;
+
+        if (oldProps.indexOf(before) === newProps.indexOf(after)) {
+          score += FIELD_WEIGHTS.position;
+          signals.push("same position");
+        }
+
+        const nameScore = this.nameSimilarity(before.name, after.name);
+        score += nameScore * FIELD_WEIGHTS.name;
+        if (nameScore >= 0.5) signals.push("similar name");
+
+        if (before.description && before.description === after.description) {
+          score += FIELD_WEIGHTS.description;
+          signals.push("same description");
+        }
+
+        candidates.push({ before, after, confidence: score, signals });
+      }
+    }
+
+    return this.assign(candidates);
+  }
+
+  /**
+   * Match removed schemas to added schemas across the whole graph
+   */
+  matchSchemas(removed: GraphNode[], added: GraphNode[]): RenameMatch<GraphNode>[] {
+    const candidates: RenameMatch<GraphNode>[] = [];
+
+    for (const before of removed) {
+      for (const after of added) {
+        if (before.type !== after.type) continue;
+
+        if (after.metadata?.renamedFrom === before.name) {
+          candidates.push({ before, after, confidence: 1, signals: ["@renamedFrom"] });
+          continue;
+        }
+
+        const propertyScore = this.propertySimilarity(before, after);
+        // Without an annotation, the shape must be substantially the same
+        if (propertyScore < 0.5) continue;
+
+        const signals = ["similar properties"];
+        let score = propertyScore * SCHEMA_WEIGHTS.properties;
+
+        const nameScore = this.nameSimilarity(before.name, after.name);
+        score += nameScore * SCHEMA_WEIGHTS.name;
+        if (nameScore >= 0.5) signals.push("similar name");
+
+        if (before.filePath === after.filePath) {
+          score += SCHEMA_WEIGHTS.file;
+          signals.push("same file");
+        }
+
+        candidates.push({ before, after, confidence: score, signals });
+      }
+    }
+
+    return this.assign(candidates);
+  }
+
+  /**
+   * Greedy one-to-one assignment, highest confidence first
+   */
+  private assign<T>(candidates: RenameMatch<T>[]): RenameMatch<T>[] {
+    const matches: RenameMatch<T>[] = [];
+    const usedBefore = new Set<T>();
+    const usedAfter = new Set<T>();
+
+    for (const candidate of candidates.sort((a, b) => b.confidence - a.confidence)) {
+      if (candidate.confidence < this.threshold) break;
+      if (usedBefore.has(candidate.before) || usedAfter.has(candidate.after)) continue;
+      usedBefore.add(candidate.before);
+      usedAfter.add(candidate.after);
+      matches.push({ ...candidate, confidence: Math.round(candidate.confidence * 100) / 100 });
+    }
+
+    return matches;
+  }
+
+  /**
+   * Jaccard similarity of `name:type` property signatures
+   */
+  private propertySimilarity(a: GraphNode, b: GraphNode): number {
+    const signature = (p: PropertyInfo) => `${p.name}:${this.typeComparator.normalize(p.type)}`;
+    const setA = new Set((a.properties || []).map(signature));
+    const setB = new Set((b.properties || []).map(signature));
+    if (setA.size > 0 || setB.size > 0) {
+      return this.jaccard(setA, setB);
+    }
+
+    // Aliases of non-literal types (`type UserId = string`): the aliased type must match
+    const aliasA: string | undefined = a.metadata?.aliasedType;
+    const aliasB: string | undefined = b.metadata?.aliasedType;
+    if (aliasA !== undefined || aliasB !== undefined) {
+      if (aliasA === undefined || aliasB === undefined) return 0;
+      return this.typeComparator.compare(aliasA, aliasB) === "equivalent" ? 1 : 0;
+    }
+
+    // Enums: compare values. Two empty shapes say nothing about being the same thing
+    const valuesA = new Set<string>(a.metadata?.values || []);
+    const valuesB = new Set<string>(b.metadata?.values || []);
+    if (valuesA.size === 0 && valuesB.size === 0) return 0;
+    return this.jaccard(valuesA, valuesB);
+  }
+
+  /**
+   * Best of edit-distance similarity and camelCase token overlap
+   * e.g. userId -> customerId shares the "id" token
+   */
+  private nameSimilarity(a: string, b: string): number {
+    const lowerA = a.toLowerCase();
+    const lowerB = b.toLowerCase();
+    const maxLen = Math.max(lowerA.length, lowerB.length);
+    const edit = maxLen === 0 ? 1 : 1 - this.levenshtein(lowerA, lowerB) / maxLen;
+    const tokens = this.jaccard(new Set(this.tokenize(a)), new Set(this.tokenize(b)));
+    return Math.max(edit, tokens);
+  }
+
+  private tokenize(name: string): string[] {
+    return name
+      .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+      .split(/[\s_-]+/)
+      .map((t) => t.toLowerCase())
+      .filter((t) => t.length > 0);
+  }
+
+  private jaccard(a: Set<string>, b: Set<string>): number {
+    if (a.size === 0 && b.size === 0) return 1;
+    const intersection = [...a].filter((x) => b.has(x)).length;
+    return intersection / new Set([...a, ...b]).size;
+  }
+
+  private levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  }
+}
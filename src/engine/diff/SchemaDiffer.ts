@@ -4,14 +4,17 @@
  */
 
 import { GraphNode, PropertyInfo } from "../core/types.js";
+import { TypeComparator, TypeDirection, TypeRelation, inferDirection } from "./TypeComparator.js";
+import { RenameDetector } from "./RenameDetector.js";
 
 export interface SchemaDiff {
   nodeId: string;
   name: string;
   type: string;
-  changeType: "added" | "removed" | "modified" | "unchanged";
+  changeType: "added" | "removed" | "modified" | "renamed" | "unchanged";
   breaking: boolean;
   changes: SchemaChange[];
+  previousNodeId?: string; // For renamed schemas
   oldVersion?: GraphNode;
   newVersion?: GraphNode;
 }
@@ -20,6 +23,8 @@ export interface SchemaChange {
   type:
     | "field_added"
     | "field_removed"
+    | "field_renamed"
+    | "schema_renamed"
     | "field_type_changed"
     | "field_required_changed"
     | "intent_changed"
@@ -29,9 +34,14 @@ export interface SchemaChange {
   newValue?: any;
   breaking: boolean;
   description: string;
+  compatibility?: TypeRelation; // For field_type_changed: how the accepted values changed
+  confidence?: number; // For renames: heuristic confidence 0-1
 }
 
 export class SchemaDiffer {
+  private typeComparator = new TypeComparator();
+  private renameDetector = new RenameDetector();
+
   /**
    * Compare two versions of the same schema
    */
@@ -62,7 +72,8 @@ export class SchemaDiffer {
     if (oldNode && newNode) {
       const propertyChanges = this.compareProperties(
         oldNode.properties || [],
-        newNode.properties || []
+        newNode.properties || [],
+        inferDirection(name)
       );
       changes.push(...propertyChanges);
 
@@ -105,14 +116,28 @@ export class SchemaDiffer {
   /**
    * Compare properties between two schema versions
    */
-  private compareProperties(oldProps: PropertyInfo[], newProps: PropertyInfo[]): SchemaChange[] {
+  private compareProperties(
+    oldProps: PropertyInfo[],
+    newProps: PropertyInfo[],
+    direction: TypeDirection
+  ): SchemaChange[] {
     const changes: SchemaChange[] = [];
     const oldPropMap = new Map(oldProps.map((p) => [p.name, p]));
     const newPropMap = new Map(newProps.map((p) => [p.name, p]));
 
+    // Pair up removed/added properties that are really renames
+    const renames = this.renameDetector.matchProperties(
+      oldProps.filter((p) => !newPropMap.has(p.name)),
+      newProps.filter((p) => !oldPropMap.has(p.name)),
+      oldProps,
+      newProps
+    );
+    const renamedFrom = new Map(renames.map((r) => [r.after.name, r]));
+    const renamedOld = new Set(renames.map((r) => r.before.name));
+
     // Check for removed properties
     for (const [name, oldProp] of oldPropMap) {
-      if (!newPropMap.has(name)) {
+      if (!newPropMap.has(name) && !renamedOld.has(name)) {
         changes.push({
           type: "field_removed",
           path: name,
@@ -123,11 +148,23 @@ export class SchemaDiffer {
       }
     }
 
-    // Check for added and modified properties
+    // Check for added, renamed and modified properties
     for (const [name, newProp] of newPropMap) {
       const oldProp = oldPropMap.get(name);
+      const rename = renamedFrom.get(name);
 
-      if (!oldProp) {
+      if (rename) {
+        changes.push({
+          type: "field_renamed",
+          path: name,
+          oldValue: rename.before.name,
+          newValue: name,
+          breaking: true, // Consumers still send/read the old name
+          confidence: rename.confidence,
+          description: `Property "${rename.before.name}" was renamed to "${name}" (${Math.round(rename.confidence * 100)}% confidence: ${rename.signals.join(", ")})`,
+        });
+        changes.push(...this.compareProperty(name, rename.before, newProp, direction));
+      } else if (!oldProp) {
         // Property added
         const breaking = newProp.required === true;
         changes.push({
@@ -140,38 +177,63 @@ export class SchemaDiffer {
             : `Optional property "${name}" was added`,
         });
       } else {
-        // Check for type changes
-        if (oldProp.type !== newProp.type) {
-          changes.push({
-            type: "field_type_changed",
-            path: name,
-            oldValue: oldProp.type,
-            newValue: newProp.type,
-            breaking: true,
-            description: `Property "${name}" type changed from "${oldProp.type}" to "${newProp.type}"`,
-          });
-        }
-
-        // Check for required changes
-        if (oldProp.required !== newProp.required) {
-          const breaking = newProp.required === true;
-          changes.push({
-            type: "field_required_changed",
-            path: name,
-            oldValue: oldProp.required,
-            newValue: newProp.required,
-            breaking,
-            description: breaking
-              ? `Property "${name}" is now required (breaking)`
-              : `Property "${name}" is now optional`,
-          });
-        }
+        changes.push(...this.compareProperty(name, oldProp, newProp, direction));
       }
     }
 
     return changes;
   }
 
+  /**
+   * Compare type and optionality of one property across versions
+   */
+  private compareProperty(
+    name: string,
+    oldProp: PropertyInfo,
+    newProp: PropertyInfo,
+    direction: TypeDirection
+  ): SchemaChange[] {
+    const changes: SchemaChange[] = [];
+
+    // Check for type changes (structurally, so reordered unions or Array<T> vs T[] are equal)
+    const relation = this.typeComparator.compare(oldProp.type, newProp.type);
+    if (relation !== "equivalent") {
+      const breaking = this.typeComparator.isBreaking(relation, direction);
+      const verb =
+        relation === "widening" ? "widened" : relation === "narrowing" ? "narrowed" : "changed";
+      changes.push({
+        type: "field_type_changed",
+        path: name,
+        oldValue: oldProp.type,
+        newValue: newProp.type,
+        breaking,
+        compatibility: relation,
+        description:
+          `Property "${name}" type ${verb} from "${oldProp.type}" to "${newProp.type}"` +
+          (relation === "incompatible"
+            ? ""
+            : ` (${breaking ? "breaking" : "safe"} for ${direction} types)`),
+      });
+    }
+
+    // Check for required changes
+    if (oldProp.required !== newProp.required) {
+      const breaking = newProp.required === true;
+      changes.push({
+        type: "field_required_changed",
+        path: name,
+        oldValue: oldProp.required,
+        newValue: newProp.required,
+        breaking,
+        description: breaking
+          ? `Property "${name}" is now required (breaking)`
+          : `Property "${name}" is now optional`,
+      });
+    }
+
+    return changes;
+  }
+
   /**
    * Compare enum values
    */
@@ -226,7 +288,40 @@ export class SchemaDiffer {
       }
     }
 
-    return diffs;
+    // Collapse removed + added pairs that are really one renamed schema
+    const removed = diffs.filter((d) => d.changeType === "removed").map((d) => d.oldVersion!);
+    const added = diffs.filter((d) => d.changeType === "added").map((d) => d.newVersion!);
+    const renames = this.renameDetector.matchSchemas(removed, added);
+    if (renames.length === 0) {
+      return diffs;
+    }
+
+    const replaced = new Set(renames.flatMap((r) => [r.before.id, r.after.id]));
+    const result = diffs.filter((d) => !replaced.has(d.nodeId));
+
+    for (const rename of renames) {
+      const diff = this.diff(rename.before, rename.after);
+      result.push({
+        ...diff,
+        changeType: "renamed",
+        previousNodeId: rename.before.id,
+        breaking: true, // References to the old name no longer resolve
+        changes: [
+          {
+            type: "schema_renamed",
+            path: "@name",
+            oldValue: rename.before.name,
+            newValue: rename.after.name,
+            breaking: true,
+            confidence: rename.confidence,
+            description: `Schema "${rename.before.name}" was renamed to "${rename.after.name}" (${Math.round(rename.confidence * 100)}% confidence: ${rename.signals.join(", ")})`,
+          },
+          ...diff.changes,
+        ],
+      });
+    }
+
+    return result;
   }
 
   /**
@@ -0,0 +1,272 @@
+/**
+ * Structural type comparison
+ * Normalises TypeScript type strings and classifies changes as widening or narrowing
+ */
+
+import * as ts from "typescript";
+
+export type TypeRelation = "equivalent" | "widening" | "narrowing" | "incompatible";
+
+// input: values flow into the system (request bodies), output: values flow out (responses)
+export type TypeDirection = "input" | "output" | "bidirectional";
+
+type TypeRep =
+  | { kind: "keyword"; name: string }
+  | { kind: "literal"; base: "string" | "number" | "boolean"; value: string }
+  | { kind: "union"; members: TypeRep[] }
+  | { kind: "array"; element: TypeRep }
+  | { kind: "tuple"; elements: TypeRep[] }
+  | { kind: "ref"; name: string; args: TypeRep[] }
+  | { kind: "object"; members: Array<{ name: string; optional: boolean; type: TypeRep }> }
+  | { kind: "other"; text: string };
+
+const INPUT_NAME = /(Request|Input|Params|Args|Command)$/;
+const OUTPUT_NAME = /(Response|Result|Output|Reply)$/;
+
+/**
+ * Infer which way data flows through a schema from its name
+ */
+export function inferDirection(schemaName: string): TypeDirection {
+  if (INPUT_NAME.test(schemaName)) return "input";
+  if (OUTPUT_NAME.test(schemaName)) return "output";
+  return "bidirectional";
+}
+
+export class TypeComparator {
+  private cache = new Map<string, TypeRep>();
+
+  /**
+   * Canonical form of a type string: `null | string` and `string|null` both become `null | string`
+   */
+  normalize(typeStr: string): string {
+    return this.print(this.parse(typeStr));
+  }
+
+  /**
+   * Classify how the set of values accepted by a type changed
+   */
+  compare(oldType: string, newType: string): TypeRelation {
+    const oldRep = this.parse(oldType);
+    const newRep = this.parse(newType);
+
+    if (this.print(oldRep) === this.print(newRep)) return "equivalent";
+    if (this.isAssignable(oldRep, newRep)) return "widening";
+    if (this.isAssignable(newRep, oldRep)) return "narrowing";
+    return "incompatible";
+  }
+
+  /**
+   * Request types may widen (accept more), response types may narrow (return less).
+   * Anything else, and any type used in both directions, is breaking.
+   */
+  isBreaking(relation: TypeRelation, direction: TypeDirection): boolean {
+    switch (relation) {
+      case "equivalent":
+        return false;
+      case "widening":
+        return direction !== "input";
+      case "narrowing":
+        return direction !== "output";
+      case "incompatible":
+        return true;
+    }
+  }
+
+  private parse(typeStr: string): TypeRep {
+    const cached = this.cache.get(typeStr);
+    if (cached) return cached;
+
+    const source = ts.createSourceFile(
+      "__type.ts",
+      `type __T = ${typeStr};`,
+      ts.ScriptTarget.Latest,
+      true
+    );
+    const statement = source.statements[0];
+    const rep =
+      statement && ts.isTypeAliasDeclaration(statement)
+        ? this.fromNode(statement.type, source)
+        : { kind: "other" as const, text: typeStr.replace(/\s+/g, "") };
+
+    this.cache.set(typeStr, rep);
+    return rep;
+  }
+
+  private fromNode(node: ts.TypeNode, source: ts.SourceFile): TypeRep {
+    if (ts.isParenthesizedTypeNode(node)) {
+      return this.fromNode(node.type, source);
+    }
+
+    if (ts.isUnionTypeNode(node)) {
+      return this.union(node.types.map((t) => this.fromNode(t, source)));
+    }
+
+    if (ts.isArrayTypeNode(node)) {
+      return { kind: "array", element: this.fromNode(node.elementType, source) };
+    }
+
+    if (ts.isTypeOperatorNode(node)) {
+      // readonly T[] holds the same values as T[]; keyof / unique symbol stay opaque
+      if (node.operator === ts.SyntaxKind.ReadonlyKeyword) {
+        return this.fromNode(node.type, source);
+      }
+      const operator = ts.tokenToString(node.operator);
+      return { kind: "other", text: `${operator} ${this.print(this.fromNode(node.type, source))}` };
+    }
+
+    if (ts.isTupleTypeNode(node)) {
+      return {
+        kind: "tuple",
+        elements: node.elements.map((e) => this.fromNode(e as ts.TypeNode, source)),
+      };
+    }
+
+    if (ts.isLiteralTypeNode(node)) {
+      const literal = node.literal;
+      if (literal.kind === ts.SyntaxKind.NullKeyword) return { kind: "keyword", name: "null" };
+      if (literal.kind === ts.SyntaxKind.TrueKeyword) {
+        return { kind: "literal", base: "boolean", value: "true" };
+      }
+      if (literal.kind === ts.SyntaxKind.FalseKeyword) {
+        return { kind: "literal", base: "boolean", value: "false" };
+      }
+      if (ts.isStringLiteral(literal) || ts.isNoSubstitutionTemplateLiteral(literal)) {
+        return { kind: "literal", base: "string", value: JSON.stringify(literal.text) };
+      }
+      if (ts.isNumericLiteral(literal)) {
+        return { kind: "literal", base: "number", value: String(Number(literal.text)) };
+      }
+      if (
+        ts.isPrefixUnaryExpression(literal) &&
+        literal.operator === ts.SyntaxKind.MinusToken &&
+        ts.isNumericLiteral(literal.operand)
+      ) {
+        return { kind: "literal", base: "number", value: String(-Number(literal.operand.text)) };
+      }
+    }
+
+    if (node.kind === ts.SyntaxKind.BooleanKeyword) {
+      // boolean is true | false so that `true` -> `boolean` reads as widening
+      return this.union([
+        { kind: "literal", base: "boolean", value: "true" },
+        { kind: "literal", base: "boolean", value: "false" },
+      ]);
+    }
+
+    if (ts.isTypeReferenceNode(node)) {
+      const name = node.typeName.getText(source);
+      const args = (node.typeArguments ?? []).map((a) => this.fromNode(a, source));
+      if ((name === "Array" || name === "ReadonlyArray") && args.length === 1) {
+        return { kind: "array", element: args[0] };
+      }
+      return { kind: "ref", name, args };
+    }
+
+    if (ts.isTypeLiteralNode(node)) {
+      const members = node.members
+        .filter(ts.isPropertySignature)
+        .map((m) => ({
+          name: m.name.getText(source),
+          optional: !!m.questionToken,
+          type: m.type
+            ? this.fromNode(m.type, source)
+            : ({ kind: "keyword", name: "any" } as TypeRep),
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+      return { kind: "object", members };
+    }
+
+    const text = node.getText(source);
+    if (ts.SyntaxKind[node.kind].endsWith("Keyword")) {
+      return { kind: "keyword", name: text };
+    }
+    return { kind: "other", text: text.replace(/\s+/g, "") };
+  }
+
+  private union(members: TypeRep[]): TypeRep {
+    const flat: TypeRep[] = [];
+    for (const member of members) {
+      if (member.kind === "union") flat.push(...member.members);
+      else flat.push(member);
+    }
+
+    const byKey = new Map<string, TypeRep>();
+    for (const member of flat) byKey.set(this.print(member), member);
+    if (byKey.size === 1) return [...byKey.values()][0];
+
+    const sorted = [...byKey.entries()].sort((a, b) => a[0].localeCompare(b[0])).map((e) => e[1]);
+    return { kind: "union", members: sorted };
+  }
+
+  private print(rep: TypeRep): string {
+    switch (rep.kind) {
+      case "keyword":
+        return rep.name;
+      case "literal":
+        return rep.value;
+      case "union": {
+        const parts = rep.members.map((m) => this.print(m));
+        // Fold `false | true` back to `boolean` for readability
+        if (parts.includes("true") && parts.includes("false")) {
+          const rest = parts.filter((p) => p !== "true" && p !== "false");
+          return [...rest, "boolean"].sort().join(" | ");
+        }
+        return parts.join(" | ");
+      }
+      case "array": {
+        const inner = this.print(rep.element);
+        return rep.element.kind === "union" ? `(${inner})[]` : `${inner}[]`;
+      }
+      case "tuple":
+        return `[${rep.elements.map((e) => this.print(e)).join(", ")}]`;
+      case "ref":
+        return rep.args.length > 0
+          ? `${rep.name}<${rep.args.map((a) => this.print(a)).join(", ")}>`
+          : rep.name;
+      case "object":
+        return `{ ${rep.members.map((m) => `${m.name}${m.optional ? "?" : ""}: ${this.print(m.type)}`).join("; ")} }`;
+      case "other":
+        return rep.text;
+    }
+  }
+
+  /**
+   * True when every value of `a` is also a value of `b`
+   */
+  private isAssignable(a: TypeRep, b: TypeRep): boolean {
+    if (b.kind === "keyword" && (b.name === "any" || b.name === "unknown")) return true;
+    if (a.kind === "keyword" && a.name === "never") return true;
+
+    if (a.kind === "union") return a.members.every((m) => this.isAssignable(m, b));
+    if (b.kind === "union") return b.members.some((m) => this.isAssignable(a, m));
+
+    if (a.kind === "literal" && b.kind === "keyword") return a.base === b.name;
+
+    if (a.kind === "array" && b.kind === "array") {
+      return this.isAssignable(a.element, b.element);
+    }
+
+    if (a.kind === "tuple") {
+      if (b.kind === "array") return a.elements.every((e) => this.isAssignable(e, b.element));
+      if (b.kind === "tuple") {
+        return (
+          a.elements.length === b.elements.length &&
+          a.elements.every((e, i) => this.isAssignable(e, b.elements[i]))
+        );
+      }
+    }
+
+    if (a.kind === "object" && b.kind === "object") {
+      const aMembers = new Map(a.members.map((m) => [m.name, m]));
+      return b.members.every((bm) => {
+        const am = aMembers.get(bm.name);
+        if (!am) return bm.optional;
+        if (am.optional && !bm.optional) return false;
+        return this.isAssignable(am.type, bm.type);
+      });
+    }
+
+    // Generic arguments are compared invariantly
+    return this.print(a) === this.print(b);
+  }
+}
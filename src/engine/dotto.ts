@@ -9,9 +9,13 @@ import { extractIntentsFromContent } from "./intent.js";
 import { GraphEngine } from "./graph/GraphEngine.js";
 import { Crawler } from "./scanner/Crawler.js";
 import { SchemaDiffer, SchemaDiff } from "./diff/SchemaDiffer.js";
-import { GitScanner } from "./git/GitScanner.js";
+import { GitScanner, BaseResolution } from "./git/GitScanner.js";
 import { ImpactAnalyzer } from "./analysis/ImpactAnalyzer.js";
 import { IntentDriftDetector, IntentDrift } from "./analysis/IntentDriftDetector.js";
+import { OwnershipMap } from "./scanner/OwnershipMap.js";
+import { GraphNode, OwnershipAnnotations, ProofEvent } from "./core/types.js";
+import { EpochStore, proofBackendFromEnv } from "./proof/index.js";
+import { canonicalHash } from "../crypto/canonical.js";
 
 export type DottoArtifacts = {
   graph: unknown;
@@ -23,8 +27,12 @@ export type DottoArtifacts = {
 export type DottoGenerateConfig = {
   artifactsDir: string;
   baseRef?: string;
+  targetBranch?: string; // PR target; the baseline is the merge-base with it
   change_id?: string;
   intent?: unknown;
+  ownershipPath?: string; // path glob -> system/tags fallback mapping
+  typeCheck?: boolean; // Resolve cross-file types with the TypeScript checker
+  tsconfigPath?: string; // Compiler options for typeCheck (default: ./tsconfig.json)
 };
 
 async function readJson(filePath: string): Promise<unknown> {
@@ -32,6 +40,30 @@ async function readJson(filePath: string): Promise<unknown> {
   return JSON.parse(raw);
 }
 
+/**
+ * Collect node-level and property-level annotations so policies can match on them.
+ * A schema carrying any PII-tagged property is itself treated as PII.
+ */
+function collectOwnership(node: GraphNode | undefined): OwnershipAnnotations {
+  if (!node) return {};
+
+  const tags = new Set<string>(node.metadata?.tags ?? []);
+  let system: string | undefined = node.metadata?.system;
+  let owner: string | undefined = node.metadata?.owner;
+
+  for (const prop of node.properties ?? []) {
+    for (const tag of prop.tags ?? []) tags.add(tag);
+    system = system ?? prop.system;
+    owner = owner ?? prop.owner;
+  }
+
+  return {
+    tags: tags.size > 0 ? [...tags] : undefined,
+    system,
+    owner,
+  };
+}
+
 /**
  * Extract @intent annotations from changed files listed in drift.json
  */
@@ -87,6 +119,25 @@ export async function loadArtifacts(artifactsDir: string): Promise<DottoArtifact
   };
 }
 
+/**
+ * Turn a schema diff into a proof event for epoch batching
+ */
+function proofEventForDiff(diff: SchemaDiff): ProofEvent {
+  const node = diff.newVersion ?? diff.oldVersion;
+  return {
+    nodeId: diff.nodeId,
+    eventType:
+      diff.changeType === "added"
+        ? "created"
+        : diff.changeType === "removed"
+          ? "deleted"
+          : "modified",
+    hash: node ? canonicalHash(node) : "",
+    metadata: { changeType: diff.changeType, breaking: diff.breaking, name: diff.name },
+    timestamp: new Date().toISOString(),
+  };
+}
+
 /**
  * Generate artifacts using local engine modules
  */
@@ -102,7 +153,14 @@ export async function generateArtifacts(config: DottoGenerateConfig): Promise<vo
   try {
     // 1) Generate dependency graph using local Crawler
     const graphEngine = new GraphEngine(graphPath);
-    const crawler = new Crawler(graphEngine);
+    const ownership = OwnershipMap.load(
+      config.ownershipPath ?? path.resolve("src/policy/ownership.json")
+    );
+    const crawler = new Crawler(graphEngine, {
+      ownership,
+      typeCheck: config.typeCheck,
+      tsconfigPath: config.tsconfigPath,
+    });
     const crawlResult = await crawler.crawl();
 
     console.log(
@@ -113,58 +171,55 @@ export async function generateArtifacts(config: DottoGenerateConfig): Promise<vo
     const currentNodes = new Map(graphEngine.getAllNodes().map((n) => [n.id, n]));
 
     // 2) Generate drift.json using GitScanner and SchemaDiffer
-    let diffs: SchemaDiff[] = [];
-    let intentDrifts: IntentDrift[] = [];
+    let base: BaseResolution | undefined;
+    let baseNodes = new Map<string, GraphNode>();
+    let baselineFallback: string | null = null;
 
     try {
       const gitScanner = new GitScanner(cwd);
-      const baseRef = config.baseRef ?? "HEAD~1";
-
-      // Get baseline nodes (from previous commit)
-      const baselineGraphPath = path.join(config.artifactsDir, ".baseline-graph.json");
-      const baseEngine = new GraphEngine(baselineGraphPath);
+      base = gitScanner.resolveBase({ baseRef: config.baseRef, target: config.targetBranch });
+      if (base.targetBranch) {
+        console.log(`🔀 Diffing against merge-base with ${base.targetBranch}: ${base.baseSha}`);
+      }
 
-      // Try to load baseline from git or previous state
-      try {
-        const baseContent = gitScanner.getFileAtCommit(path.relative(cwd, graphPath), baseRef);
-        if (baseContent) {
-          const baseGraph = JSON.parse(baseContent);
-          for (const node of baseGraph.nodes || []) {
-            baseEngine.addNode(node);
-          }
-        }
-      } catch {
-        // No baseline available, treat all as new
+      // Baseline: scan the source tree at the base commit straight from git objects
+      if (base.baseSha) {
+        baseNodes = await gitScanner.scanCommit(base.baseSha, { ownership });
       }
+    } catch (err) {
+      // Fail closed: without a baseline every node counts as added, never as unchanged
+      baselineFallback = err instanceof Error ? err.message : String(err);
+      console.warn(`⚠️  Baseline unavailable, treating every node as added: ${baselineFallback}`);
+    }
 
-      const baseNodes = new Map(baseEngine.getAllNodes().map((n) => [n.id, n]));
+    // Compute schema diffs
+    const schemaDiffer = new SchemaDiffer();
+    const diffs: SchemaDiff[] = schemaDiffer.diffMany(baseNodes, currentNodes);
 
-      // Compute schema diffs
-      const schemaDiffer = new SchemaDiffer();
-      diffs = schemaDiffer.diffMany(baseNodes, currentNodes);
+    // Compute intent drifts
+    const driftDetector = new IntentDriftDetector();
+    const intentDrifts: IntentDrift[] = driftDetector.detectBatchDrift(baseNodes, currentNodes);
 
-      // Compute intent drifts
-      const driftDetector = new IntentDriftDetector();
-      intentDrifts = driftDetector.detectBatchDrift(baseNodes, currentNodes);
-
-      console.log(
-        `🔍 Detected ${diffs.length} schema changes, ${intentDrifts.length} intent drifts`
-      );
-    } catch (err) {
-      console.warn("Git comparison unavailable, using current state only:", err);
-    }
+    console.log(`🔍 Detected ${diffs.length} schema changes, ${intentDrifts.length} intent drifts`);
 
     // Write drift.json
     const driftOutput = {
       timestamp: new Date().toISOString(),
-      baseRef: config.baseRef ?? "HEAD~1",
+      baseRef: base?.baseRef ?? config.baseRef ?? "HEAD~1",
+      baseSha: base?.baseSha ?? null,
+      headSha: base?.headSha ?? null,
+      mergeBase: base?.mergeBase ?? null,
+      targetBranch: base?.targetBranch ?? null,
+      baselineFallback, // Why the baseline is empty instead of the base commit, if it is
       diffs: diffs.map((d) => ({
         nodeId: d.nodeId,
         name: d.name,
         type: d.type,
         changeType: d.changeType,
+        ...(d.previousNodeId ? { previousNodeId: d.previousNodeId } : {}),
         breaking: d.breaking,
         changes: d.changes,
+        ...collectOwnership(d.newVersion ?? d.oldVersion),
       })),
       intentDrifts: intentDrifts.map((d) => ({
         nodeId: d.nodeId,
@@ -177,6 +232,29 @@ export async function generateArtifacts(config: DottoGenerateConfig): Promise<vo
     };
     await writeFile(driftPath, JSON.stringify(driftOutput, null, 2) + "\n", "utf8");
 
+    // 2b) Batch node changes into Merkle epochs (epochs.json); sealed epochs are
+    // anchored through the configured proof backend. Runs without changes still
+    // seal an epoch whose interval has passed.
+    const changes = diffs.filter((d) => d.changeType !== "unchanged");
+    try {
+      const backend = proofBackendFromEnv();
+      try {
+        const store = new EpochStore(path.join(config.artifactsDir, "epochs.json"));
+        const epoch = await store.add(changes.map(proofEventForDiff), backend, (event) =>
+          event.metadata.breaking ? "breaking" : "info"
+        );
+        if (epoch) {
+          console.log(
+            `🔏 Sealed epoch ${epoch.epoch_id} (${epoch.artifacts.length} changes, root ${epoch.merkle_root.slice(0, 12)})`
+          );
+        }
+      } finally {
+        await backend.close?.();
+      }
+    } catch (err) {
+      console.warn("Proof epoch unavailable:", err);
+    }
+
     // 3) Generate impact.json using ImpactAnalyzer
     const impactAnalyzer = new ImpactAnalyzer(graphEngine);
     const analyses = [];
@@ -267,9 +345,20 @@ export async function assertDottoInstalled(): Promise<void> {
 // Re-export engine modules for direct use
 export { GraphEngine } from "./graph/GraphEngine.js";
 export { Crawler } from "./scanner/Crawler.js";
+export { WorkingTreeProvider, GitTreeProvider } from "./scanner/FileProvider.js";
 export { SchemaDiffer } from "./diff/SchemaDiffer.js";
 export { GitScanner } from "./git/GitScanner.js";
 export { ImpactAnalyzer } from "./analysis/ImpactAnalyzer.js";
 export { IntentDriftDetector } from "./analysis/IntentDriftDetector.js";
+export { CompatibilityChecker } from "./analysis/CompatibilityChecker.js";
+export { SchemaHistory } from "./analysis/SchemaHistory.js";
 export type { SchemaDiff } from "./diff/SchemaDiffer.js";
+export type { BaseResolution } from "./git/GitScanner.js";
+export type { FileProvider } from "./scanner/FileProvider.js";
 export type { IntentDrift } from "./analysis/IntentDriftDetector.js";
+export type { CompatibilityMode } from "./analysis/CompatibilityChecker.js";
+export type {
+  SchemaHistoryEntry,
+  SchemaHistoryResult,
+  HistoryDecision,
+} from "./analysis/SchemaHistory.js";
@@ -4,10 +4,12 @@
  */
 
 import { spawnSync } from "node:child_process";
-import * as fs from "node:fs";
 import { GraphEngine } from "../graph/GraphEngine.js";
-import { Crawler } from "../scanner/Crawler.js";
+import { Crawler, isSchemaFile } from "../scanner/Crawler.js";
+import { GitTreeProvider, WorkingTreeProvider } from "../scanner/FileProvider.js";
+import { OwnershipMap } from "../scanner/OwnershipMap.js";
 import { SchemaDiffer, SchemaDiff } from "../diff/SchemaDiffer.js";
+import { GraphNode } from "../core/types.js";
 
 // Validate git ref/commit to prevent command injection
 const GIT_REF_PATTERN = /^[a-zA-Z0-9._\-/~^@{}:]+$/;
@@ -19,8 +21,8 @@ function validateGitRef(ref: string): string {
 }
 
 // Safe git command execution using spawnSync with argument array
-function safeGitCommand(args: string[], cwd: string): string {
-  const result = spawnSync("git", args, { cwd, encoding: "utf-8" });
+function safeGitCommand(args: string[], cwd: string, input?: string): string {
+  const result = spawnSync("git", args, { cwd, encoding: "utf-8", input });
   if (result.error) {
     throw result.error;
   }
@@ -37,6 +39,28 @@ export interface GitComparisonResult {
   filesChanged: string[];
 }
 
+/**
+ * What a diff is taken against. For pull requests the base is the merge-base with
+ * the target branch, so the drift covers every commit on the branch.
+ */
+export interface BaseResolution {
+  baseRef: string; // Ref the baseline was taken from (the merge-base SHA for PRs)
+  baseSha?: string; // Absent when HEAD has no parent
+  headSha: string;
+  mergeBase?: string;
+  targetBranch?: string;
+}
+
+/**
+ * Branch a pull request targets, from CI: GITHUB_BASE_REF (GitHub Actions) or
+ * CI_MERGE_REQUEST_TARGET_BRANCH_NAME (GitLab)
+ */
+export function targetBranchFromEnv(): string | undefined {
+  return (
+    process.env.GITHUB_BASE_REF || process.env.CI_MERGE_REQUEST_TARGET_BRANCH_NAME || undefined
+  );
+}
+
 export class GitScanner {
   private readonly repoPath: string;
 
@@ -67,25 +91,12 @@ export class GitScanner {
       return output
         .split("\n")
         .filter((f: string) => f.trim().length > 0)
-        .filter((f: string) => this.isSchemaFile(f));
+        .filter((f: string) => isSchemaFile(f));
     } catch (error) {
       throw new Error(`Failed to get changed files: ${error}`);
     }
   }
 
-  /**
-   * Check if file is a schema file
-   */
-  private isSchemaFile(filePath: string): boolean {
-    return (
-      /\.(dto|schema|interface)\.ts$/i.test(filePath) ||
-      /Dto\.ts$/i.test(filePath) ||
-      /Schema\.ts$/i.test(filePath) ||
-      /Interface\.ts$/i.test(filePath) ||
-      /\.(openapi|swagger)\.(json|yaml|yml)$/i.test(filePath)
-    );
-  }
-
   /**
    * Get file content at specific commit
    */
@@ -102,6 +113,16 @@ export class GitScanner {
     }
   }
 
+  /**
+   * List every file in the tree of a commit (relative to the repository path)
+   */
+  listFilesAtCommit(commit: string): string[] {
+    const validCommit = validateGitRef(commit);
+    return safeGitCommand(["ls-tree", "-r", "--name-only", "-z", validCommit], this.repoPath)
+      .split("\0")
+      .filter((f) => f.length > 0);
+  }
+
   /**
    * Compare schemas between two commits
    */
@@ -111,30 +132,14 @@ export class GitScanner {
   ): Promise<GitComparisonResult> {
     const filesChanged = this.getChangedFiles(baseCommit, headCommit);
 
-    // Scan baseline
-    const baseEngine = new GraphEngine(".dotto-baseline.json");
-    const baseCrawler = new Crawler(baseEngine);
-    await baseCrawler.crawl();
-    const baseNodes = new Map(baseEngine.getAllNodes().map((n) => [n.id, n]));
-
-    // Scan current
-    const headEngine = new GraphEngine(".dotto-head.json");
-    const headCrawler = new Crawler(headEngine);
-    await headCrawler.crawl();
-    const headNodes = new Map(headEngine.getAllNodes().map((n) => [n.id, n]));
+    // Scan both trees from git objects; the working directory is not touched
+    const baseNodes = await this.scanCommit(baseCommit);
+    const headNodes = await this.scanCommit(headCommit);
 
     // Compute diffs
     const differ = new SchemaDiffer();
     const diffs = differ.diffMany(baseNodes, headNodes);
 
-    // Cleanup temp files
-    try {
-      fs.unlinkSync(".dotto-baseline.json");
-      fs.unlinkSync(".dotto-head.json");
-    } catch {
-      // Ignore cleanup errors
-    }
-
     return {
       baseCommit,
       headCommit,
@@ -143,10 +148,31 @@ export class GitScanner {
     };
   }
 
+  /**
+   * Scan the schemas in the tree of a commit into an in-memory graph
+   */
+  async scanCommit(
+    commit: string,
+    options: { ownership?: OwnershipMap } = {}
+  ): Promise<Map<string, GraphNode>> {
+    const engine = new GraphEngine(null);
+    const crawler = new Crawler(engine, {
+      ownership: options.ownership,
+      files: new GitTreeProvider(this, commit, this.repoPath),
+    });
+    await crawler.crawl();
+    return new Map(engine.getAllNodes().map((n) => [n.id, n]));
+  }
+
   /**
    * Compare current working directory against last commit
+   *
+   * HEAD is read from git objects and the working tree from disk; the working
+   * tree, index and stash are left untouched and nothing is written.
    */
-  async scanUncommittedChanges(): Promise<GitComparisonResult> {
+  async scanUncommittedChanges(
+    options: { ownership?: OwnershipMap } = {}
+  ): Promise<GitComparisonResult> {
     const headCommit = this.getCurrentCommit();
 
     // Get changed files in working directory
@@ -161,52 +187,26 @@ export class GitScanner {
       };
     }
 
-    // Stash current changes temporarily
-    const hasStash = this.stashChanges();
+    const baseNodes = await this.scanCommit(headCommit, options);
 
-    try {
-      // Scan baseline (HEAD - committed version)
-      const baseEngine = new GraphEngine(".dotto-baseline.json");
-      const baseCrawler = new Crawler(baseEngine);
-      await baseCrawler.crawl();
-      const baseNodes = new Map(baseEngine.getAllNodes().map((n) => [n.id, n]));
-
-      // Restore working directory changes
-      if (hasStash) {
-        this.unstashChanges();
-      }
-
-      // Scan current working directory
-      const headEngine = new GraphEngine(".dotto-head.json");
-      const headCrawler = new Crawler(headEngine);
-      await headCrawler.crawl();
-      const headNodes = new Map(headEngine.getAllNodes().map((n) => [n.id, n]));
-
-      // Compute diffs
-      const differ = new SchemaDiffer();
-      const diffs = differ.diffMany(baseNodes, headNodes);
+    const headEngine = new GraphEngine(null);
+    const headCrawler = new Crawler(headEngine, {
+      ownership: options.ownership,
+      files: new WorkingTreeProvider(this.repoPath),
+    });
+    await headCrawler.crawl();
+    const headNodes = new Map(headEngine.getAllNodes().map((n) => [n.id, n]));
 
-      // Cleanup temp files
-      try {
-        fs.unlinkSync(".dotto-baseline.json");
-        fs.unlinkSync(".dotto-head.json");
-      } catch {
-        // Ignore cleanup errors
-      }
+    // Compute diffs
+    const differ = new SchemaDiffer();
+    const diffs = differ.diffMany(baseNodes, headNodes);
 
-      return {
-        baseCommit: headCommit,
-        headCommit: "working-directory",
-        diffs,
-        filesChanged,
-      };
-    } catch (error) {
-      // Make sure to restore stash on error
-      if (hasStash) {
-        this.unstashChanges();
-      }
-      throw error;
-    }
+    return {
+      baseCommit: headCommit,
+      headCommit: "working-directory",
+      diffs,
+      filesChanged,
+    };
   }
 
   /**
@@ -235,68 +235,155 @@ export class GitScanner {
   }
 
   /**
-   * Stash current changes
+   * Get files changed in working directory (uncommitted)
    */
-  private stashChanges(): boolean {
+  private getWorkingDirectoryChanges(): string[] {
     try {
-      spawnSync("git", ["stash", "push", "-u", "-m", "dotto-temp-scan"], {
-        cwd: this.repoPath,
-        stdio: "pipe",
-      });
-      return true;
+      // Tracked changes (staged or not) plus new files that are not ignored
+      const tracked = safeGitCommand(["diff", "--name-only", "HEAD"], this.repoPath);
+      const untracked = safeGitCommand(
+        ["ls-files", "--others", "--exclude-standard"],
+        this.repoPath
+      );
+
+      return `${tracked}\n${untracked}`
+        .split("\n")
+        .filter((f: string) => f.trim().length > 0)
+        .filter((f: string) => isSchemaFile(f));
     } catch {
-      return false;
+      return [];
     }
   }
 
   /**
-   * Unstash changes
+   * Get commit message
    */
-  private unstashChanges(): void {
+  getCommitMessage(commit: string): string {
     try {
-      spawnSync("git", ["stash", "pop"], { cwd: this.repoPath, stdio: "pipe" });
+      const validCommit = validateGitRef(commit);
+      return safeGitCommand(["log", "-1", "--pretty=%B", validCommit], this.repoPath).trim();
     } catch {
-      console.warn("Warning: Failed to restore stashed changes");
+      return "";
     }
   }
 
   /**
-   * Get files changed in working directory (uncommitted)
+   * Get commit author
    */
-  private getWorkingDirectoryChanges(): string[] {
+  getCommitAuthor(commit: string): string {
     try {
-      const output = safeGitCommand(["diff", "--name-only", "HEAD"], this.repoPath);
-
-      return output
-        .split("\n")
-        .filter((f: string) => f.trim().length > 0)
-        .filter((f: string) => this.isSchemaFile(f));
+      const validCommit = validateGitRef(commit);
+      return safeGitCommand(["log", "-1", "--pretty=%an", validCommit], this.repoPath).trim();
     } catch {
-      return [];
+      return "";
     }
   }
 
   /**
-   * Get commit message
+   * Get commit author date (ISO 8601)
    */
-  getCommitMessage(commit: string): string {
+  getCommitDate(commit: string): string {
     try {
       const validCommit = validateGitRef(commit);
-      return safeGitCommand(["log", "-1", "--pretty=%B", validCommit], this.repoPath).trim();
+      return safeGitCommand(["log", "-1", "--pretty=%aI", validCommit], this.repoPath).trim();
     } catch {
       return "";
     }
   }
 
   /**
-   * Get commit author
+   * Commits after `from` up to `to`, oldest first. Follows first parents, so a merged
+   * branch shows up as its merge commit.
    */
-  getCommitAuthor(commit: string): string {
+  getCommitsInRange(from: string | undefined, to: string = "HEAD"): string[] {
+    const validTo = validateGitRef(to);
+    const range = from ? `${validateGitRef(from)}..${validTo}` : validTo;
+    return safeGitCommand(["rev-list", "--reverse", "--first-parent", range], this.repoPath)
+      .split("\n")
+      .filter((c) => c.trim().length > 0);
+  }
+
+  /**
+   * Resolve a ref to its full commit SHA
+   */
+  resolveCommit(ref: string): string {
+    const validRef = validateGitRef(ref);
+    return safeGitCommand(["rev-parse", "--verify", `${validRef}^{commit}`], this.repoPath).trim();
+  }
+
+  /**
+   * Merge-base of HEAD and a target branch. CI checkouts often only have the
+   * remote-tracking branch, so origin/<target> is tried as well.
+   */
+  getMergeBase(target: string, head: string = "HEAD"): string {
+    const validTarget = validateGitRef(target);
+    const validHead = validateGitRef(head);
+    for (const candidate of [validTarget, `origin/${validTarget}`]) {
+      try {
+        return safeGitCommand(["merge-base", candidate, validHead], this.repoPath).trim();
+      } catch {
+        // Try the next candidate
+      }
+    }
+    throw new Error(
+      `No merge-base between ${head} and ${target} (is the target branch fetched? ` +
+        "Shallow checkouts need the full history, e.g. fetch-depth: 0)"
+    );
+  }
+
+  /**
+   * Resolve the baseline for a diff: an explicit base ref, else the merge-base with
+   * the target branch (--target, GITHUB_BASE_REF, CI_MERGE_REQUEST_TARGET_BRANCH_NAME),
+   * else HEAD~1.
+   */
+  resolveBase(options: { baseRef?: string; target?: string } = {}): BaseResolution {
+    const headSha = this.resolveCommit("HEAD");
+
+    if (options.baseRef) {
+      return { baseRef: options.baseRef, baseSha: this.resolveCommit(options.baseRef), headSha };
+    }
+
+    const targetBranch = options.target ?? targetBranchFromEnv();
+    if (targetBranch) {
+      const mergeBase = this.getMergeBase(targetBranch);
+      return { baseRef: mergeBase, baseSha: mergeBase, headSha, mergeBase, targetBranch };
+    }
+
+    let baseSha: string | undefined;
+    try {
+      baseSha = this.resolveCommit("HEAD~1");
+    } catch {
+      // Root commit: everything is new
+    }
+    return { baseRef: "HEAD~1", baseSha, headSha };
+  }
+
+  /**
+   * Append a line to the git note on a commit (refs/notes/<notesRef>)
+   */
+  appendNote(commit: string, content: string, notesRef: string = "dotto"): void {
+    const validCommit = validateGitRef(commit);
+    const validNotesRef = validateGitRef(notesRef);
+    safeGitCommand(
+      ["notes", `--ref=${validNotesRef}`, "append", "--file=-", validCommit],
+      this.repoPath,
+      content
+    );
+  }
+
+  /**
+   * Read the git note on a commit, or null if there is none
+   */
+  readNote(commit: string, notesRef: string = "dotto"): string | null {
     try {
       const validCommit = validateGitRef(commit);
-      return safeGitCommand(["log", "-1", "--pretty=%an", validCommit], this.repoPath).trim();
+      const validNotesRef = validateGitRef(notesRef);
+      return safeGitCommand(
+        ["notes", `--ref=${validNotesRef}`, "show", validCommit],
+        this.repoPath
+      );
     } catch {
-      return "";
+      return null;
     }
   }
 
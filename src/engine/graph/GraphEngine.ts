@@ -10,15 +10,18 @@ import { DependencyGraph, GraphNode, GraphEdge, CrawlResult } from "../core/type
 
 export class GraphEngine {
   private graph: DependencyGraph;
-  private graphPath: string;
+  private graphPath: string | null;
 
-  constructor(graphPath: string = "graph.json") {
+  /**
+   * @param graphPath Where the graph is persisted; null keeps it in memory only
+   */
+  constructor(graphPath: string | null = "graph.json") {
     this.graphPath = graphPath;
     this.graph = this.loadGraph();
   }
 
   private loadGraph(): DependencyGraph {
-    if (fs.existsSync(this.graphPath)) {
+    if (this.graphPath && fs.existsSync(this.graphPath)) {
       try {
         const data = JSON.parse(fs.readFileSync(this.graphPath, "utf-8"));
         return {
@@ -41,6 +44,10 @@ export class GraphEngine {
   }
 
   saveGraph(): void {
+    if (!this.graphPath) {
+      return;
+    }
+
     const data = {
       nodes: Object.fromEntries(this.graph.nodes),
       edges: Object.fromEntries(this.graph.edges),
@@ -52,7 +59,10 @@ export class GraphEngine {
   }
 
   computeFileHash(filePath: string): string {
-    const content = fs.readFileSync(filePath, "utf-8");
+    return this.computeContentHash(fs.readFileSync(filePath, "utf-8"));
+  }
+
+  computeContentHash(content: string): string {
     return crypto.createHash("sha256").update(content).digest("hex");
   }
 
@@ -40,7 +40,12 @@ export function intentCoversChange(
   if (to && intentText.includes(to)) return true;
 
   // Check for common rename patterns
-  if (change.type === "field_removed" || change.type === "field_added") {
+  if (
+    change.type === "field_removed" ||
+    change.type === "field_added" ||
+    change.type === "field_renamed" ||
+    change.type === "schema_renamed"
+  ) {
     if (intentText.includes("rename")) return true;
   }
   if (change.type === "type_changed") {
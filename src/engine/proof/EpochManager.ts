@@ -3,8 +3,14 @@
  * Optimizes HCS costs by batching multiple changes into single submission
  */
 
-import crypto from "crypto";
 import { ProofEvent } from "../core/types.js";
+import {
+  MerkleProof,
+  buildMerkleTree,
+  generateMerkleProof,
+  merkleLeafHash,
+  verifyMerkleProof,
+} from "../../crypto/merkle.js";
 
 export interface EpochArtifact {
   id: string;
@@ -22,19 +28,69 @@ export interface Epoch {
   merkle_tree: string[][];
 }
 
+/**
+ * Merkle leaf hash of an artifact (what a standalone verifier recomputes)
+ */
+export function epochLeafHash(artifact: EpochArtifact): string {
+  return merkleLeafHash(
+    JSON.stringify({
+      id: artifact.id,
+      hash: artifact.hash,
+      eventType: artifact.eventType,
+      timestamp: artifact.timestamp,
+    })
+  );
+}
+
 export class EpochManager {
   private currentEpoch: EpochArtifact[] = [];
   private epochCounter: number = 0;
   private epochInterval: number = 15 * 60 * 1000; // 15 minutes default
+  private maxEpochSize: number;
+  private epochStartedAt: number | null = null;
 
-  constructor(intervalMinutes: number = 15) {
+  constructor(intervalMinutes: number = 15, maxEpochSize: number = Infinity) {
     this.epochInterval = intervalMinutes * 60 * 1000;
+    this.maxEpochSize = maxEpochSize;
+  }
+
+  /**
+   * Restore an open epoch and the epoch counter (e.g. from a previous process)
+   */
+  restore(pending: EpochArtifact[], epochCounter: number, startedAt?: string | null): void {
+    this.currentEpoch = [...pending];
+    this.epochCounter = epochCounter;
+    this.epochStartedAt =
+      pending.length > 0 ? (startedAt ? new Date(startedAt).getTime() : Date.now()) : null;
+  }
+
+  /**
+   * Whether the current epoch should be finalized: full, or open longer than the interval
+   */
+  isDue(now: number = Date.now()): boolean {
+    if (this.currentEpoch.length === 0) {
+      return false;
+    }
+    return (
+      this.currentEpoch.length >= this.maxEpochSize ||
+      (this.epochStartedAt !== null && now - this.epochStartedAt >= this.epochInterval)
+    );
+  }
+
+  /**
+   * When the current epoch received its first artifact
+   */
+  getEpochStartedAt(): string | null {
+    return this.epochStartedAt === null ? null : new Date(this.epochStartedAt).toISOString();
   }
 
   /**
    * Add artifact to current epoch
    */
   addArtifact(event: ProofEvent, severity?: "breaking" | "warning" | "info"): void {
+    if (this.currentEpoch.length === 0) {
+      this.epochStartedAt = Date.now();
+    }
     this.currentEpoch.push({
       id: event.nodeId,
       hash: event.hash,
@@ -48,44 +104,7 @@ export class EpochManager {
    * Build Merkle tree from artifacts
    */
   private buildMerkleTree(artifacts: EpochArtifact[]): string[][] {
-    if (artifacts.length === 0) {
-      return [];
-    }
-
-    // Leaf level: hash each artifact
-    let currentLevel = artifacts.map((artifact) =>
-      this.hashString(
-        JSON.stringify({
-          id: artifact.id,
-          hash: artifact.hash,
-          eventType: artifact.eventType,
-          timestamp: artifact.timestamp,
-        })
-      )
-    );
-
-    const tree: string[][] = [currentLevel];
-
-    // Build tree bottom-up
-    while (currentLevel.length > 1) {
-      const nextLevel: string[] = [];
-
-      for (let i = 0; i < currentLevel.length; i += 2) {
-        if (i + 1 < currentLevel.length) {
-          // Pair exists
-          const combined = currentLevel[i] + currentLevel[i + 1];
-          nextLevel.push(this.hashString(combined));
-        } else {
-          // Odd node, promote to next level
-          nextLevel.push(currentLevel[i]);
-        }
-      }
-
-      tree.push(nextLevel);
-      currentLevel = nextLevel;
-    }
-
-    return tree;
+    return buildMerkleTree(artifacts.map(epochLeafHash));
   }
 
   /**
@@ -109,6 +128,7 @@ export class EpochManager {
 
     // Reset for next epoch
     this.currentEpoch = [];
+    this.epochStartedAt = null;
 
     return epoch;
   }
@@ -121,63 +141,33 @@ export class EpochManager {
   }
 
   /**
-   * Verify artifact is in epoch using Merkle proof
+   * Artifacts waiting in the current (not yet finalized) epoch
    */
-  verifyArtifactInEpoch(artifact: EpochArtifact, epoch: Epoch, proofPath: number[]): boolean {
-    const artifactHash = this.hashString(
-      JSON.stringify({
-        id: artifact.id,
-        hash: artifact.hash,
-        eventType: artifact.eventType,
-        timestamp: artifact.timestamp,
-      })
-    );
-
-    let currentHash = artifactHash;
-
-    // Walk up the tree using proof path
-    for (let level = 0; level < proofPath.length; level++) {
-      const siblingIndex = proofPath[level];
-      const siblingHash = epoch.merkle_tree[level][siblingIndex];
-
-      if (!siblingHash) {
-        return false;
-      }
-
-      // Combine with sibling
-      const combined = currentHash + siblingHash;
-      currentHash = this.hashString(combined);
-    }
+  getPendingArtifacts(): EpochArtifact[] {
+    return [...this.currentEpoch];
+  }
 
-    return currentHash === epoch.merkle_root;
+  /**
+   * Verify artifact is in epoch using Merkle proof (needs only the epoch's root)
+   */
+  verifyArtifactInEpoch(artifact: EpochArtifact, merkleRoot: string, proof: MerkleProof): boolean {
+    return verifyMerkleProof(epochLeafHash(artifact), proof, merkleRoot);
   }
 
   /**
    * Generate Merkle proof for artifact
    */
-  generateMerkleProof(artifact: EpochArtifact, epoch: Epoch): number[] | null {
+  generateMerkleProof(artifact: EpochArtifact, epoch: Epoch): MerkleProof | null {
     // Find artifact index in leaf level
     const leafIndex = epoch.artifacts.findIndex(
-      (a) => a.id === artifact.id && a.hash === artifact.hash
+      (a) => a.id === artifact.id && a.hash === artifact.hash && a.timestamp === artifact.timestamp
     );
 
     if (leafIndex === -1) {
       return null;
     }
 
-    const proofPath: number[] = [];
-    let currentIndex = leafIndex;
-
-    // Walk up tree, recording sibling indices
-    for (let level = 0; level < epoch.merkle_tree.length - 1; level++) {
-      const isRightNode = currentIndex % 2 === 1;
-      const siblingIndex = isRightNode ? currentIndex - 1 : currentIndex + 1;
-
-      proofPath.push(siblingIndex);
-      currentIndex = Math.floor(currentIndex / 2);
-    }
-
-    return proofPath;
+    return generateMerkleProof(epoch.merkle_tree, leafIndex);
   }
 
   /**
@@ -205,13 +195,6 @@ export class EpochManager {
     };
   }
 
-  /**
-   * Hash helper
-   */
-  private hashString(data: string): string {
-    return crypto.createHash("sha256").update(data).digest("hex");
-  }
-
   /**
    * Get epoch statistics
    */
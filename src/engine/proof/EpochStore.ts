@@ -0,0 +1,177 @@
+/**
+ * Epoch Store - Persist Merkle epochs between runs (artifacts/epochs.json)
+ * Feeds ProofEvents into an EpochManager, seals epochs when due and anchors
+ * each sealed epoch's Merkle root through the configured proof backend.
+ */
+
+import { readFile, writeFile } from "fs/promises";
+
+import { EpochManager } from "./EpochManager.js";
+import type { Epoch, EpochArtifact } from "./EpochManager.js";
+import { ProofBackend } from "./ProofBackend.js";
+import { ProofEvent, ProofRef } from "../core/types.js";
+import { MerkleProof, generateMerkleProof } from "../../crypto/merkle.js";
+
+export interface StoredEpoch extends Epoch {
+  proof?: ProofRef; // Anchoring of the Merkle root
+}
+
+export interface EpochStoreState {
+  epochs: StoredEpoch[];
+  pending: EpochArtifact[];
+  pending_since: string | null;
+}
+
+export interface EpochInclusion {
+  status: "included" | "pending";
+  artifact: EpochArtifact;
+  epoch?: StoredEpoch;
+  merkle_proof?: MerkleProof;
+  verified?: boolean;
+}
+
+export class EpochStore {
+  private filePath: string;
+  private intervalMinutes: number;
+  private maxEpochSize: number;
+
+  /**
+   * @param intervalMinutes Seal an epoch once it has been open this long (DOTTO_EPOCH_INTERVAL_MINUTES)
+   * @param maxEpochSize Seal an epoch once it holds this many artifacts (DOTTO_EPOCH_MAX_SIZE)
+   */
+  constructor(
+    filePath: string,
+    intervalMinutes: number = Number(process.env.DOTTO_EPOCH_INTERVAL_MINUTES) || 15,
+    maxEpochSize: number = Number(process.env.DOTTO_EPOCH_MAX_SIZE) || 100
+  ) {
+    this.filePath = filePath;
+    this.intervalMinutes = intervalMinutes;
+    this.maxEpochSize = maxEpochSize;
+  }
+
+  /**
+   * Read the store. Only a missing file means "no epochs yet": an unreadable or corrupt
+   * file throws, so the next write cannot silently replace the sealed history.
+   */
+  async load(): Promise<EpochStoreState> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, "utf8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+        return { epochs: [], pending: [], pending_since: null };
+      }
+      throw err;
+    }
+
+    let state: Partial<EpochStoreState>;
+    try {
+      state = JSON.parse(raw) as Partial<EpochStoreState>;
+    } catch (err) {
+      throw new Error(`Epoch store ${this.filePath} is corrupt: ${String(err)}`);
+    }
+    return {
+      epochs: state.epochs ?? [],
+      pending: state.pending ?? [],
+      pending_since: state.pending_since ?? null,
+    };
+  }
+
+  /**
+   * Add events to the open epoch and seal it if it is due.
+   * @returns The sealed epoch, or null if the epoch is still open
+   */
+  async add(
+    events: ProofEvent[],
+    backend: ProofBackend,
+    severityOf?: (event: ProofEvent) => "breaking" | "warning" | "info"
+  ): Promise<StoredEpoch | null> {
+    const state = await this.load();
+    const manager = new EpochManager(this.intervalMinutes, this.maxEpochSize);
+    manager.restore(state.pending, state.epochs.length, state.pending_since);
+
+    for (const event of events) {
+      manager.addArtifact(event, severityOf?.(event));
+    }
+
+    let sealed: StoredEpoch | null = null;
+    if (manager.isDue()) {
+      const epoch = manager.finalizeEpoch();
+      if (epoch) {
+        sealed = { ...epoch, proof: await this.anchor(epoch, backend) };
+        state.epochs.push(sealed);
+      }
+    }
+
+    if (events.length === 0 && !sealed) {
+      return null;
+    }
+
+    state.pending = manager.getPendingArtifacts();
+    state.pending_since = manager.getEpochStartedAt();
+    await writeFile(this.filePath, JSON.stringify(state, null, 2) + "\n", "utf8");
+
+    return sealed;
+  }
+
+  /**
+   * Seal the open epoch if it is due, without adding events. Epochs are otherwise
+   * only sealed when new changes arrive, so call this whenever time may have passed.
+   * @returns The sealed epoch, or null if nothing was due
+   */
+  async sealIfDue(backend: ProofBackend): Promise<StoredEpoch | null> {
+    return this.add([], backend);
+  }
+
+  /**
+   * Latest inclusion of a node: the sealed epoch with its Merkle proof, or pending.
+   */
+  async findInclusion(nodeId: string): Promise<EpochInclusion | null> {
+    const state = await this.load();
+
+    const pending = [...state.pending].reverse().find((a) => a.id === nodeId);
+    if (pending) {
+      return { status: "pending", artifact: pending };
+    }
+
+    const manager = new EpochManager(this.intervalMinutes, this.maxEpochSize);
+    for (const epoch of [...state.epochs].reverse()) {
+      const leafIndex = epoch.artifacts.map((a) => a.id).lastIndexOf(nodeId);
+      if (leafIndex === -1) continue;
+
+      const artifact = epoch.artifacts[leafIndex];
+      const proof = generateMerkleProof(epoch.merkle_tree, leafIndex) ?? undefined;
+      return {
+        status: "included",
+        artifact,
+        epoch,
+        merkle_proof: proof,
+        verified: !!proof && manager.verifyArtifactInEpoch(artifact, epoch.merkle_root, proof),
+      };
+    }
+
+    return null;
+  }
+
+  private async anchor(epoch: Epoch, backend: ProofBackend): Promise<ProofRef | undefined> {
+    if (backend.name === "none") {
+      return undefined;
+    }
+    try {
+      return await backend.record({
+        nodeId: `epoch:${epoch.epoch_id}`,
+        eventType: "created",
+        hash: epoch.merkle_root,
+        metadata: {
+          type: "epoch",
+          epoch_id: epoch.epoch_id,
+          artifact_count: epoch.artifacts.length,
+        },
+        timestamp: epoch.timestamp,
+      });
+    } catch (err) {
+      console.error(`Failed to anchor epoch ${epoch.epoch_id} via ${backend.name}:`, err);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Git notes proof backend
+ * Stores proofs next to the code, as git notes on the audited commit
+ *
+ * Each recorded event is one JSON line in the note under refs/notes/dotto
+ * (or DOTTO_NOTES_REF). The commit is taken from `metadata.commit_sha` when the
+ * event carries one (receipts do), otherwise HEAD.
+ *
+ * Notes are local until pushed: git push origin refs/notes/dotto
+ */
+
+import crypto from "crypto";
+
+import { ProofBackend } from "./ProofBackend.js";
+import { ProofRef, ProofEvent } from "../core/types.js";
+import { GitScanner } from "../git/GitScanner.js";
+
+export const DEFAULT_NOTES_REF = "dotto";
+
+interface NoteEntry {
+  event: ProofEvent;
+  event_hash: string;
+  recorded_at: string;
+}
+
+export class GitNotesBackend implements ProofBackend {
+  readonly name = "git-notes";
+  private git: GitScanner;
+  private notesRef: string;
+
+  constructor(repoPath: string = process.cwd(), notesRef?: string) {
+    this.git = new GitScanner(repoPath);
+    this.notesRef = notesRef ?? process.env.DOTTO_NOTES_REF ?? DEFAULT_NOTES_REF;
+  }
+
+  async record(event: ProofEvent): Promise<ProofRef> {
+    const target =
+      typeof event.metadata?.commit_sha === "string" ? event.metadata.commit_sha : "HEAD";
+    const commit = this.git.resolveCommit(target);
+
+    const entry: NoteEntry = {
+      event,
+      event_hash: this.hashEvent(event),
+      recorded_at: new Date().toISOString(),
+    };
+    this.git.appendNote(commit, JSON.stringify(entry), this.notesRef);
+
+    return {
+      backend: this.name,
+      id: `${commit}:${entry.event_hash}`,
+      timestamp: entry.recorded_at,
+      link: this.linkFor(commit),
+    };
+  }
+
+  /**
+   * Read the note back and check the event is there and unmodified.
+   */
+  async verify(ref: ProofRef): Promise<boolean> {
+    if (ref.backend !== this.name) {
+      return false;
+    }
+
+    const [commit, hash] = ref.id.split(":");
+    if (!commit || !hash) {
+      return false;
+    }
+
+    const note = this.git.readNote(commit, this.notesRef);
+    if (!note) {
+      return false;
+    }
+
+    return this.parseNote(note).some(
+      (entry) => entry.event_hash === hash && this.hashEvent(entry.event) === hash
+    );
+  }
+
+  getLink(ref: ProofRef): string {
+    return ref.link || this.linkFor(ref.id.split(":")[0]);
+  }
+
+  /**
+   * All events recorded on a commit.
+   */
+  getEvents(commit: string): ProofEvent[] {
+    const note = this.git.readNote(commit, this.notesRef);
+    return note ? this.parseNote(note).map((entry) => entry.event) : [];
+  }
+
+  private linkFor(commit: string): string {
+    return `${commit} (refs/notes/${this.notesRef})`;
+  }
+
+  private parseNote(note: string): NoteEntry[] {
+    const entries: NoteEntry[] = [];
+    for (const line of note.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line) as NoteEntry);
+      } catch {
+        // Not a dotto entry (notes can be edited by hand); ignore
+      }
+    }
+    return entries;
+  }
+
+  private hashEvent(event: ProofEvent): string {
+    const data = JSON.stringify({
+      nodeId: event.nodeId,
+      eventType: event.eventType,
+      hash: event.hash,
+      metadata: event.metadata,
+      timestamp: event.timestamp,
+    });
+    return crypto.createHash("sha256").update(data).digest("hex");
+  }
+}
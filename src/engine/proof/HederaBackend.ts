@@ -17,11 +17,13 @@ export class HederaBackend implements ProofBackend {
   private topicId: string;
   private epochManager: EpochManager;
   private batchMode: boolean;
+  private network: string;
 
   constructor(batchMode: boolean = false, epochIntervalMinutes: number = 15) {
     this.topicId = process.env.HEDERA_TOPIC_ID || "";
     this.epochManager = new EpochManager(epochIntervalMinutes);
     this.batchMode = batchMode;
+    this.network = process.env.HEDERA_NETWORK || "testnet";
   }
 
   async initialize(): Promise<void> {
@@ -38,8 +40,7 @@ export class HederaBackend implements ProofBackend {
       throw new Error("HEDERA_TOPIC_ID not configured in .env");
     }
 
-    const network = process.env.HEDERA_NETWORK || "testnet";
-    this.client = network === "testnet" ? Client.forTestnet() : Client.forMainnet();
+    this.client = this.network === "testnet" ? Client.forTestnet() : Client.forMainnet();
 
     this.client.setOperator(AccountId.fromString(accountId), PrivateKey.fromString(privateKey));
   }
@@ -97,7 +98,7 @@ export class HederaBackend implements ProofBackend {
       backend: this.name,
       id: txId,
       timestamp: new Date().toISOString(),
-      link: `https://hashscan.io/testnet/transaction/${transactionId}`,
+      link: `https://hashscan.io/${this.network}/transaction/${transactionId}`,
     };
   }
 
@@ -148,7 +149,7 @@ export class HederaBackend implements ProofBackend {
       backend: this.name,
       id: txId,
       timestamp: new Date().toISOString(),
-      link: `https://hashscan.io/testnet/topic/${this.topicId}/message/${receipt.topicSequenceNumber}`,
+      link: `https://hashscan.io/${this.network}/topic/${this.topicId}/message/${receipt.topicSequenceNumber}`,
     };
 
     return { epoch, proof };
@@ -181,7 +182,7 @@ export class HederaBackend implements ProofBackend {
   }
 
   getLink(ref: ProofRef): string {
-    return ref.link || `https://hashscan.io/testnet/transaction/${ref.id}`;
+    return ref.link || `https://hashscan.io/${this.network}/transaction/${ref.id}`;
   }
 
   async close(): Promise<void> {
@@ -0,0 +1,291 @@
+/**
+ * Local append-only transparency log proof backend
+ * Tamper-evident proofs without network access (offline / on-prem)
+ *
+ * Each line of the log (JSON Lines) links the previous entry's hash, so editing,
+ * reordering or deleting any entry breaks every hash after it. Signed tree heads
+ * commit to the log size and head hash, and each head links the previous one, so
+ * truncating the log, or dropping heads, is detected too. A log whose entries are not
+ * all covered by a signed head never verifies.
+ *
+ * Truncating the log and its heads back to an earlier consistent state can only be
+ * detected against a head kept elsewhere (e.g. the proof refs handed out).
+ */
+
+import crypto from "crypto";
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import path from "path";
+
+import { ProofBackend } from "./ProofBackend.js";
+import { ProofRef, ProofEvent } from "../core/types.js";
+import {
+  Signer,
+  SigningAlgorithm,
+  VerificationKey,
+  signerFromEnv,
+  verifyWithEnvFallback,
+} from "../../crypto/signing.js";
+
+export const DEFAULT_PROOF_LOG_PATH = ".dotto/proof-log.jsonl";
+
+const GENESIS_HASH = "0".repeat(64);
+
+export interface LogEntry {
+  index: number;
+  timestamp: string;
+  event: ProofEvent;
+  prev_hash: string;
+  entry_hash: string;
+}
+
+export interface SignedTreeHead {
+  size: number;
+  head_hash: string;
+  timestamp: string;
+  algorithm: SigningAlgorithm;
+  kid?: string;
+  prev_head: string | null; // Hash of the previous signed head (null for the first)
+  signature: string;
+}
+
+export interface LogVerification {
+  valid: boolean;
+  size: number;
+  error?: string;
+}
+
+export class LocalLogBackend implements ProofBackend {
+  readonly name = "local-log";
+  private logPath: string;
+  private headsPath: string;
+  private signer?: Signer;
+
+  /**
+   * @param logPath Log file (default: DOTTO_PROOF_LOG or .dotto/proof-log.jsonl)
+   * @param signer Signs tree heads (default: the receipt signing key from the environment)
+   */
+  constructor(logPath?: string, signer?: Signer) {
+    this.logPath = path.resolve(logPath ?? process.env.DOTTO_PROOF_LOG ?? DEFAULT_PROOF_LOG_PATH);
+    this.headsPath = this.logPath.replace(/(\.jsonl)?$/, ".heads.jsonl");
+    this.signer = signer;
+  }
+
+  async record(event: ProofEvent): Promise<ProofRef> {
+    const entries = this.readEntries();
+    const last = entries[entries.length - 1];
+
+    const entry: Omit<LogEntry, "entry_hash"> = {
+      index: entries.length,
+      timestamp: new Date().toISOString(),
+      event,
+      prev_hash: last ? last.entry_hash : GENESIS_HASH,
+    };
+    const logEntry: LogEntry = { ...entry, entry_hash: this.hashEntry(entry) };
+
+    mkdirSync(path.dirname(this.logPath), { recursive: true });
+    appendFileSync(this.logPath, JSON.stringify(logEntry) + "\n", "utf8");
+
+    // Publish a signed head covering the new entry
+    this.appendTreeHead(this.signTreeHead(logEntry));
+
+    return {
+      backend: this.name,
+      id: `${logEntry.index}:${logEntry.entry_hash}`,
+      timestamp: logEntry.timestamp,
+      link: `${this.logPath}#${logEntry.index}`,
+    };
+  }
+
+  /**
+   * Valid when the referenced entry is in the log and the whole chain replays
+   * cleanly against the latest signed tree head.
+   */
+  async verify(ref: ProofRef): Promise<boolean> {
+    if (ref.backend !== this.name) {
+      return false;
+    }
+
+    const [indexPart, hash] = ref.id.split(":");
+    const index = Number(indexPart);
+    if (!Number.isInteger(index) || !hash) {
+      return false;
+    }
+
+    const result = this.verifyLog();
+    if (!result.valid || index >= result.size) {
+      return false;
+    }
+    return this.readEntries()[index].entry_hash === hash;
+  }
+
+  getLink(ref: ProofRef): string {
+    return ref.link || `${this.logPath}#${ref.id.split(":")[0]}`;
+  }
+
+  /**
+   * Replay the hash chain and check it against the latest signed tree head.
+   */
+  verifyLog(key: VerificationKey = {}): LogVerification {
+    let entries: LogEntry[];
+    try {
+      entries = this.readEntries();
+    } catch (err) {
+      return { valid: false, size: 0, error: `Log is unreadable: ${String(err)}` };
+    }
+
+    let prevHash = GENESIS_HASH;
+    for (const [i, entry] of entries.entries()) {
+      if (entry.index !== i) {
+        return { valid: false, size: i, error: `Entry ${i} has index ${entry.index}` };
+      }
+      if (entry.prev_hash !== prevHash) {
+        return { valid: false, size: i, error: `Entry ${i} does not link to entry ${i - 1}` };
+      }
+      const { entry_hash, ...unhashed } = entry;
+      if (this.hashEntry(unhashed) !== entry_hash) {
+        return { valid: false, size: i, error: `Entry ${i} has been modified` };
+      }
+      prevHash = entry_hash;
+    }
+
+    let heads: SignedTreeHead[];
+    try {
+      heads = this.readTreeHeads();
+    } catch (err) {
+      return { valid: false, size: entries.length, error: `Tree heads are unreadable: ${err}` };
+    }
+
+    // Every head is signed, links its predecessor and only ever grows the log
+    let prevHead: SignedTreeHead | null = null;
+    for (const [i, head] of heads.entries()) {
+      if (!this.verifyTreeHead(head, key)) {
+        return { valid: false, size: entries.length, error: `Tree head ${i} signature is invalid` };
+      }
+      if (head.prev_head !== (prevHead ? this.hashTreeHead(prevHead) : null)) {
+        return {
+          valid: false,
+          size: entries.length,
+          error: `Tree head ${i} does not link to ${i - 1}`,
+        };
+      }
+      if (prevHead && head.size <= prevHead.size) {
+        return { valid: false, size: entries.length, error: `Tree head ${i} shrinks the log` };
+      }
+      if (head.size > entries.length) {
+        return {
+          valid: false,
+          size: entries.length,
+          error: `Log has ${entries.length} entries but a signed head covers ${head.size}`,
+        };
+      }
+      if (head.size < 1 || entries[head.size - 1].entry_hash !== head.head_hash) {
+        return { valid: false, size: entries.length, error: `Log does not match tree head ${i}` };
+      }
+      prevHead = head;
+    }
+
+    // Entries past the latest head (or with no head at all) are unsigned
+    const signedSize = prevHead?.size ?? 0;
+    if (signedSize !== entries.length) {
+      return {
+        valid: false,
+        size: entries.length,
+        error: `Log has ${entries.length} entries but the latest signed head covers ${signedSize}`,
+      };
+    }
+
+    return { valid: true, size: entries.length };
+  }
+
+  /**
+   * Latest signed tree head, or null when nothing has been recorded.
+   */
+  getTreeHead(): SignedTreeHead | null {
+    const heads = this.readTreeHeads();
+    return heads.length > 0 ? heads[heads.length - 1] : null;
+  }
+
+  /**
+   * Check a tree head signature (key material not given falls back to the environment).
+   */
+  verifyTreeHead(head: SignedTreeHead, key: VerificationKey = {}): boolean {
+    try {
+      return verifyWithEnvFallback(
+        head.algorithm,
+        this.treeHeadPayload(head),
+        head.signature,
+        key,
+        "Tree head"
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  private signTreeHead(last: LogEntry): SignedTreeHead {
+    const signer = this.signer ?? signerFromEnv();
+    const previous = this.getTreeHead();
+    const unsigned = {
+      size: last.index + 1,
+      head_hash: last.entry_hash,
+      timestamp: new Date().toISOString(),
+      algorithm: signer.algorithm,
+      ...(signer.kid ? { kid: signer.kid } : {}),
+      prev_head: previous ? this.hashTreeHead(previous) : null,
+    };
+    return { ...unsigned, signature: signer.sign(this.treeHeadPayload(unsigned)) };
+  }
+
+  private appendTreeHead(head: SignedTreeHead): void {
+    appendFileSync(this.headsPath, JSON.stringify(head) + "\n", "utf8");
+  }
+
+  private treeHeadPayload(head: Omit<SignedTreeHead, "signature">): string {
+    return JSON.stringify({
+      size: head.size,
+      head_hash: head.head_hash,
+      timestamp: head.timestamp,
+      algorithm: head.algorithm,
+      kid: head.kid,
+      prev_head: head.prev_head,
+    });
+  }
+
+  private hashTreeHead(head: SignedTreeHead): string {
+    return crypto
+      .createHash("sha256")
+      .update(this.treeHeadPayload(head))
+      .update(head.signature)
+      .digest("hex");
+  }
+
+  private readTreeHeads(): SignedTreeHead[] {
+    if (!existsSync(this.headsPath)) {
+      return [];
+    }
+    return readFileSync(this.headsPath, "utf8")
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as SignedTreeHead);
+  }
+
+  private readEntries(): LogEntry[] {
+    if (!existsSync(this.logPath)) {
+      return [];
+    }
+    return readFileSync(this.logPath, "utf8")
+      .split("\n")
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as LogEntry);
+  }
+
+  private hashEntry(entry: Omit<LogEntry, "entry_hash">): string {
+    const data = JSON.stringify({
+      index: entry.index,
+      timestamp: entry.timestamp,
+      event: entry.event,
+      prev_hash: entry.prev_hash,
+    });
+    return crypto.createHash("sha256").update(data).digest("hex");
+  }
+}
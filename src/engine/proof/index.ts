@@ -5,11 +5,19 @@
 import { ProofBackend } from "./ProofBackend.js";
 import { NoneBackend } from "./NoneBackend.js";
 import { HederaBackend } from "./HederaBackend.js";
+import { LocalLogBackend } from "./LocalLogBackend.js";
+import { GitNotesBackend } from "./GitNotesBackend.js";
 
-export { ProofBackend } from "./ProofBackend.js";
+export type { ProofBackend } from "./ProofBackend.js";
 export { NoneBackend } from "./NoneBackend.js";
 export { HederaBackend } from "./HederaBackend.js";
-export { EpochManager, Epoch, EpochArtifact } from "./EpochManager.js";
+export { LocalLogBackend } from "./LocalLogBackend.js";
+export type { LogEntry, SignedTreeHead, LogVerification } from "./LocalLogBackend.js";
+export { GitNotesBackend } from "./GitNotesBackend.js";
+export { EpochManager } from "./EpochManager.js";
+export type { Epoch, EpochArtifact } from "./EpochManager.js";
+export { EpochStore } from "./EpochStore.js";
+export type { StoredEpoch, EpochStoreState, EpochInclusion } from "./EpochStore.js";
 
 export function createProofBackend(type: string): ProofBackend {
   switch (type.toLowerCase()) {
@@ -17,7 +25,27 @@ export function createProofBackend(type: string): ProofBackend {
       return new NoneBackend();
     case "hedera":
       return new HederaBackend();
+    case "local":
+    case "local-log":
+      return new LocalLogBackend();
+    case "git":
+    case "git-notes":
+      return new GitNotesBackend();
     default:
       throw new Error(`Unknown proof backend: ${type}`);
   }
 }
+
+/**
+ * Backend selected by DOTTO_PROOF_BACKEND. Without it, Hedera is used when its
+ * credentials are configured (the previous behaviour) and nothing otherwise.
+ */
+export function proofBackendFromEnv(): ProofBackend {
+  const configured = process.env.DOTTO_PROOF_BACKEND;
+  if (configured) {
+    return createProofBackend(configured);
+  }
+  const hederaConfigured =
+    process.env.HEDERA_ACCOUNT_ID && process.env.HEDERA_PRIVATE_KEY && process.env.HEDERA_TOPIC_ID;
+  return createProofBackend(hederaConfigured ? "hedera" : "none");
+}
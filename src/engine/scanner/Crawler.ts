@@ -3,42 +3,85 @@
  * Implements incremental crawling with diff detection
  */
 
-import fg from "fast-glob";
 import { GraphEngine } from "../graph/GraphEngine.js";
 import { TypeScriptScanner } from "./TypeScriptScanner.js";
 import { OpenAPIScanner } from "./OpenAPIScanner.js";
+import { OwnershipMap } from "./OwnershipMap.js";
+import { FileProvider, WorkingTreeProvider } from "./FileProvider.js";
 import { CrawlResult, GraphNode } from "../core/types.js";
+import { matchesGlob } from "../core/glob.js";
+
+// Files crawled by default: TypeScript DTOs / schemas / interfaces and OpenAPI specs
+export const DEFAULT_SCHEMA_PATTERNS = [
+  "**/*.dto.ts",
+  "**/*Dto.ts",
+  "**/*.schema.ts",
+  "**/*Schema.ts",
+  "**/*.interface.ts",
+  "**/*Interface.ts",
+  "**/*.openapi.{json,yaml,yml}",
+  "**/*.swagger.{json,yaml,yml}",
+  "**/openapi.{json,yaml,yml}",
+];
+
+const IGNORED_PATTERNS = ["node_modules/**", "dist/**", ".git/**"];
+
+/**
+ * True when a repository-relative path is one the crawler scans by default
+ * (dot files and directories are skipped, as fast-glob does)
+ */
+export function isSchemaFile(filePath: string): boolean {
+  const normalized = filePath.replace(/\\/g, "/").replace(/^\.\//, "");
+  return (
+    !normalized.split("/").some((segment) => segment.startsWith(".")) &&
+    matchesGlob(normalized, DEFAULT_SCHEMA_PATTERNS) &&
+    !matchesGlob(normalized, IGNORED_PATTERNS)
+  );
+}
 
 export class Crawler {
   private graphEngine: GraphEngine;
   private tsScanner: TypeScriptScanner;
   private apiScanner: OpenAPIScanner;
-
-  constructor(graphEngine: GraphEngine) {
+  private ownership: OwnershipMap;
+  private files: FileProvider;
+  private typeCheck: boolean;
+  private tsconfigPath?: string;
+
+  /**
+   * @param options.files Where files are read from (default: the working tree)
+   * @param options.typeCheck Resolve cross-file types with a TypeScript program built
+   *   from options.tsconfigPath (default: ./tsconfig.json); slower, but accurate
+   */
+  constructor(
+    graphEngine: GraphEngine,
+    options: {
+      ownership?: OwnershipMap;
+      files?: FileProvider;
+      typeCheck?: boolean;
+      tsconfigPath?: string;
+    } = {}
+  ) {
     this.graphEngine = graphEngine;
     this.tsScanner = new TypeScriptScanner();
     this.tsScanner.setGraphEngine(graphEngine); // Enable field-level tracking
     this.apiScanner = new OpenAPIScanner();
+    this.ownership = options.ownership ?? new OwnershipMap();
+    this.files = options.files ?? new WorkingTreeProvider();
+    this.typeCheck = options.typeCheck ?? false;
+    this.tsconfigPath = options.tsconfigPath;
   }
 
   async crawl(options: { diff?: boolean; patterns?: string[] } = {}): Promise<CrawlResult> {
     const startTime = Date.now();
-    const patterns = options.patterns || [
-      "**/*.dto.ts",
-      "**/*Dto.ts",
-      "**/*.schema.ts",
-      "**/*Schema.ts",
-      "**/*.interface.ts",
-      "**/*Interface.ts",
-      "**/*.openapi.{json,yaml,yml}",
-      "**/*.swagger.{json,yaml,yml}",
-      "**/openapi.{json,yaml,yml}",
-    ];
-
-    const files = await fg(patterns, {
-      ignore: ["node_modules/**", "dist/**", ".git/**"],
-      absolute: true,
-    });
+    const patterns = options.patterns || DEFAULT_SCHEMA_PATTERNS;
+
+    const files = await this.files.listFiles(patterns, IGNORED_PATTERNS);
+
+    if (this.typeCheck) {
+      const tsFiles = files.filter((f) => !f.match(/\.(json|yaml|yml)$/));
+      this.tsScanner.setProgram(TypeScriptScanner.createProgram(tsFiles, this.tsconfigPath));
+    }
 
     const added: GraphNode[] = [];
     const modified: GraphNode[] = [];
@@ -50,18 +93,20 @@ export class Crawler {
     const processedNodeIds = new Set<string>();
 
     for (const file of files) {
-      const fileHash = this.graphEngine.computeFileHash(file);
+      const content = this.files.readFile(file);
+      const fileHash = this.graphEngine.computeContentHash(content);
 
       let scanResult: { nodes: GraphNode[]; edges: any[] };
 
       if (file.match(/\.(json|yaml|yml)$/)) {
-        scanResult = await this.apiScanner.scan(file, fileHash);
+        scanResult = await this.apiScanner.scan(file, fileHash, content);
       } else {
-        scanResult = this.tsScanner.scan(file, fileHash);
+        scanResult = this.tsScanner.scan(file, fileHash, content);
       }
 
       for (const node of scanResult.nodes) {
         processedNodeIds.add(node.id);
+        this.ownership.apply(node);
 
         if (options.diff && !this.graphEngine.hasNodeChanged(node.id, fileHash)) {
           unchanged++;
@@ -0,0 +1,74 @@
+/**
+ * File providers for the crawler
+ * Scan the working tree, or the tree of any commit without checking it out
+ */
+
+import fg from "fast-glob";
+import * as fs from "fs";
+import * as path from "path";
+import { matchesGlob } from "../core/glob.js";
+import type { GitScanner } from "../git/GitScanner.js";
+
+export interface FileProvider {
+  /**
+   * Absolute paths of the files matching the patterns
+   */
+  listFiles(patterns: string[], ignore: string[]): Promise<string[]>;
+
+  readFile(filePath: string): string;
+}
+
+/**
+ * Files as they are on disk
+ */
+export class WorkingTreeProvider implements FileProvider {
+  private cwd: string;
+
+  constructor(cwd: string = process.cwd()) {
+    this.cwd = cwd;
+  }
+
+  async listFiles(patterns: string[], ignore: string[]): Promise<string[]> {
+    return fg(patterns, { ignore, absolute: true, cwd: this.cwd });
+  }
+
+  readFile(filePath: string): string {
+    return fs.readFileSync(filePath, "utf-8");
+  }
+}
+
+/**
+ * Files as they were at a commit, read from git objects (ls-tree / show).
+ * Paths are reported under the repository path so node ids match a working tree scan.
+ */
+export class GitTreeProvider implements FileProvider {
+  private git: GitScanner;
+  private ref: string;
+  private repoPath: string;
+
+  constructor(git: GitScanner, ref: string, repoPath: string = process.cwd()) {
+    this.git = git;
+    this.ref = ref;
+    this.repoPath = repoPath;
+  }
+
+  async listFiles(patterns: string[], ignore: string[]): Promise<string[]> {
+    return (
+      this.git
+        .listFilesAtCommit(this.ref)
+        // Like fast-glob, skip dot files and directories
+        .filter((file) => !file.split("/").some((segment) => segment.startsWith(".")))
+        .filter((file) => matchesGlob(file, patterns) && !matchesGlob(file, ignore))
+        .map((file) => path.resolve(this.repoPath, file))
+    );
+  }
+
+  readFile(filePath: string): string {
+    const relativePath = path.relative(this.repoPath, filePath).split(path.sep).join("/");
+    const content = this.git.getFileAtCommit(`./${relativePath}`, this.ref);
+    if (content === null) {
+      throw new Error(`${relativePath} does not exist at ${this.ref}`);
+    }
+    return content;
+  }
+}
@@ -8,12 +8,14 @@ import * as yaml from "js-yaml";
 import { GraphNode, GraphEdge } from "../core/types.js";
 
 export class OpenAPIScanner {
+  /**
+   * @param content File content, when it does not come from disk (e.g. a git tree)
+   */
   async scan(
     filePath: string,
-    fileHash: string
+    fileHash: string,
+    content: string = fs.readFileSync(filePath, "utf-8")
   ): Promise<{ nodes: GraphNode[]; edges: GraphEdge[] }> {
-    const content = fs.readFileSync(filePath, "utf-8");
-
     // Normalize to relative path
     const relativePath = this.toRelativePath(filePath);
 
@@ -0,0 +1,77 @@
+/**
+ * Fallback ownership mapping
+ * Assigns system/tags/owner to nodes by file path for code that cannot be annotated
+ */
+
+import * as fs from "fs";
+import { GraphNode, OwnershipAnnotations } from "../core/types.js";
+import { globToRegExp } from "../core/glob.js";
+
+export interface OwnershipMapping extends OwnershipAnnotations {
+  pattern: string;
+}
+
+export class OwnershipMap {
+  private mappings: Array<OwnershipMapping & { regex: RegExp }>;
+
+  constructor(mappings: OwnershipMapping[] = []) {
+    this.mappings = mappings.map((m) => ({ ...m, regex: globToRegExp(m.pattern) }));
+  }
+
+  /**
+   * Load mappings from a JSON file of the form { "mappings": [{ "pattern": "...", ... }] }.
+   * A missing file yields an empty map.
+   */
+  static load(filePath: string): OwnershipMap {
+    if (!fs.existsSync(filePath)) {
+      return new OwnershipMap();
+    }
+
+    const data = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    if (!Array.isArray(data.mappings)) {
+      throw new Error(`Ownership file ${filePath} must contain a "mappings" array`);
+    }
+
+    const mappings: OwnershipMapping[] = data.mappings.map((m: Record<string, unknown>) => {
+      if (typeof m.pattern !== "string") {
+        throw new Error(`Ownership mapping in ${filePath} is missing a "pattern"`);
+      }
+      return {
+        pattern: m.pattern,
+        tags: Array.isArray(m.tags) ? m.tags.map((t) => String(t).toLowerCase()) : undefined,
+        system: typeof m.system === "string" ? m.system.toLowerCase() : undefined,
+        owner: typeof m.owner === "string" ? m.owner : undefined,
+      };
+    });
+
+    return new OwnershipMap(mappings);
+  }
+
+  /**
+   * Resolve annotations for a repository-relative file path.
+   * Earlier mappings take precedence; later ones only fill fields still missing.
+   */
+  resolve(filePath: string): OwnershipAnnotations {
+    const normalized = filePath.replace(/\\/g, "/");
+    const result: OwnershipAnnotations = {};
+
+    for (const mapping of this.mappings) {
+      if (!mapping.regex.test(normalized)) continue;
+      if (!result.tags && mapping.tags) result.tags = mapping.tags;
+      if (!result.system && mapping.system) result.system = mapping.system;
+      if (!result.owner && mapping.owner) result.owner = mapping.owner;
+    }
+
+    return result;
+  }
+
+  /**
+   * Fill in node annotations not provided by JSDoc tags in the source
+   */
+  apply(node: GraphNode): void {
+    const fallback = this.resolve(node.filePath);
+    if (!node.metadata.tags && fallback.tags) node.metadata.tags = fallback.tags;
+    if (!node.metadata.system && fallback.system) node.metadata.system = fallback.system;
+    if (!node.metadata.owner && fallback.owner) node.metadata.owner = fallback.owner;
+  }
+}
@@ -6,28 +6,103 @@
 import * as ts from "typescript";
 import * as fs from "fs";
 import * as path from "path";
-import { GraphNode, GraphEdge, PropertyInfo } from "../core/types.js";
+import { GraphNode, GraphEdge, PropertyInfo, OwnershipAnnotations } from "../core/types.js";
 
 import { GraphEngine } from "../graph/GraphEngine.js";
 
+// A property whose type refers to another schema: source → target
+interface TypeReference {
+  target: GraphNode;
+  property: PropertyInfo;
+  sourceNodeId: string;
+  typeName: string;
+}
+
+type SchemaDeclaration = (
+  | ts.InterfaceDeclaration
+  | ts.ClassDeclaration
+  | ts.TypeAliasDeclaration
+  | ts.EnumDeclaration
+) & { name: ts.Identifier };
+
 export class TypeScriptScanner {
   private graphEngine?: GraphEngine;
+  private program?: ts.Program;
 
   setGraphEngine(engine: GraphEngine) {
     this.graphEngine = engine;
   }
 
-  scan(filePath: string, fileHash: string): { nodes: GraphNode[]; edges: GraphEdge[] } {
-    const content = fs.readFileSync(filePath, "utf-8");
+  /**
+   * Resolve property types with the type checker instead of matching import names.
+   * Handles barrels, re-exports, default/namespace imports, path aliases and
+   * same-file types. Files not in the program are still scanned in isolation.
+   */
+  setProgram(program: ts.Program) {
+    this.program = program;
+  }
+
+  /**
+   * Build a program over the files to scan with the project's compiler options
+   * (tsconfig.json), so imports resolve the way the compiler resolves them.
+   */
+  static createProgram(
+    files: string[],
+    tsconfigPath: string = path.resolve("tsconfig.json")
+  ): ts.Program {
+    let options: ts.CompilerOptions = {};
+    if (fs.existsSync(tsconfigPath)) {
+      const config = ts.readConfigFile(tsconfigPath, ts.sys.readFile);
+      if (config.error) {
+        throw new Error(
+          `Invalid ${tsconfigPath}: ${ts.flattenDiagnosticMessageText(config.error.messageText, "\n")}`
+        );
+      }
+      options = ts.parseJsonConfigFileContent(
+        config.config,
+        ts.sys,
+        path.dirname(tsconfigPath)
+      ).options;
+    }
 
+    options = { ...options, noEmit: true };
+    return ts.createProgram({
+      rootNames: files,
+      options,
+      host: ts.createCompilerHost(options, true),
+    });
+  }
+
+  /**
+   * @param content File content, when it does not come from disk (e.g. a git tree)
+   */
+  scan(
+    filePath: string,
+    fileHash: string,
+    content: string = fs.readFileSync(filePath, "utf-8")
+  ): { nodes: GraphNode[]; edges: GraphEdge[] } {
     // Normalize to relative path
     const relativePath = this.toRelativePath(filePath);
 
-    const sourceFile = ts.createSourceFile(relativePath, content, ts.ScriptTarget.Latest, true);
+    // The program's copy is only usable if it is the content being scanned
+    const programFile = this.program?.getSourceFile(filePath);
+    const checker =
+      programFile && programFile.text === content ? this.program!.getTypeChecker() : undefined;
+    const sourceFile =
+      checker && programFile
+        ? programFile
+        : ts.createSourceFile(relativePath, content, ts.ScriptTarget.Latest, true);
 
     const nodes: GraphNode[] = [];
     const edges: GraphEdge[] = [];
     const importedTypes: Map<string, string> = new Map(); // type name -> file path
+    const references: TypeReference[] = [];
+
+    const resolve = (declaration: ts.Node, graphNode: GraphNode) => {
+      if (checker) {
+        references.push(...this.resolveReferences(declaration, graphNode, sourceFile, checker));
+      }
+    };
 
     const visit = (node: ts.Node) => {
       // Extract @intent from JSDoc
@@ -36,24 +111,31 @@ export class TypeScriptScanner {
       // Parse interfaces
       if (ts.isInterfaceDeclaration(node) && node.name) {
         const interfaceNode = this.parseInterface(node, sourceFile, relativePath, fileHash, intent);
+        this.applyAnnotations(interfaceNode, node);
+        resolve(node, interfaceNode);
         nodes.push(interfaceNode);
       }
 
       // Parse classes (DTOs)
       if (ts.isClassDeclaration(node) && node.name) {
         const classNode = this.parseClass(node, sourceFile, relativePath, fileHash, intent);
+        this.applyAnnotations(classNode, node);
+        resolve(node, classNode);
         nodes.push(classNode);
       }
 
       // Parse type aliases
       if (ts.isTypeAliasDeclaration(node) && node.name) {
         const typeNode = this.parseTypeAlias(node, sourceFile, relativePath, fileHash, intent);
+        this.applyAnnotations(typeNode, node);
+        resolve(node, typeNode);
         nodes.push(typeNode);
       }
 
       // Parse enums
       if (ts.isEnumDeclaration(node) && node.name) {
         const enumNode = this.parseEnum(node, sourceFile, relativePath, fileHash, intent);
+        this.applyAnnotations(enumNode, node);
         nodes.push(enumNode);
       }
 
@@ -83,76 +165,158 @@ export class TypeScriptScanner {
 
     visit(sourceFile);
 
+    // Without a program, link property types to named imports by their text
+    if (!checker) {
+      nodes.forEach((target) => {
+        if (!target.properties) return;
+
+        target.properties.forEach((property) => {
+          importedTypes.forEach((importFilePath, typeName) => {
+            // Extract base type from complex types: TradeDto[], TradeDto | null, Record<string, TradeDto>
+            const baseType = this.extractBaseType(property.type);
+
+            if (baseType === typeName) {
+              references.push({
+                target,
+                property,
+                sourceNodeId: `${importFilePath}:${typeName}`,
+                typeName,
+              });
+            }
+          });
+        });
+      });
+    }
+
     // Layer 0: Type-level edges (cheap + reliable)
     // If OrderDto has property trade: TradeDto, create edge TradeDto → OrderDto
-    nodes.forEach((targetNode) => {
-      if (!targetNode.properties) return;
+    references.forEach(({ target, property, sourceNodeId }) => {
+      edges.push({
+        id: `${sourceNodeId}-to-${target.id}`,
+        source: sourceNodeId,
+        target: target.id,
+        type: "uses",
+        confidence: 1.0,
+        metadata: {
+          layer: "type_reference",
+          propertyName: property.name,
+          propertyType: property.type,
+          ...(checker ? { resolution: "type_checker" } : {}),
+        },
+      });
+    });
 
-      targetNode.properties.forEach((prop) => {
-        importedTypes.forEach((importFilePath, typeName) => {
-          // Extract base type from complex types: TradeDto[], TradeDto | null, Record<string, TradeDto>
-          const baseType = this.extractBaseType(prop.type);
+    // Layer 1: Field-level via transparent schema references
+    // If OrderDto.total: Money, create field-path edges for each Money field
+    if (this.graphEngine) {
+      references.forEach(({ target, property, sourceNodeId, typeName }) => {
+        const sourceNode = this.graphEngine!.getNode(sourceNodeId);
 
-          if (baseType === typeName) {
-            const sourceNodeId = `${importFilePath}:${typeName}`;
+        // If source type has properties, create field-path edges
+        if (sourceNode && sourceNode.properties) {
+          sourceNode.properties.forEach((sourceField) => {
             edges.push({
-              id: `${sourceNodeId}-to-${targetNode.id}`,
+              id: `${sourceNodeId}:${sourceField.name}-to-${target.id}:${property.name}.${sourceField.name}`,
               source: sourceNodeId,
-              target: targetNode.id,
+              target: target.id,
               type: "uses",
-              confidence: 1.0,
+              confidence: 0.95,
               metadata: {
-                layer: "type_reference",
-                propertyName: prop.name,
-                propertyType: prop.type,
+                layer: "field_path",
+                sourceField: sourceField.name,
+                targetProperty: property.name,
+                targetFieldPath: `${property.name}.${sourceField.name}`,
+                note: `${target.name}.${property.name} is ${typeName}, so ${typeName}.${sourceField.name} changes affect ${target.name}.${property.name}.${sourceField.name}`,
               },
             });
-          }
-        });
+          });
+        }
       });
-    });
+    }
 
-    // Layer 1: Field-level via transparent schema references
-    // If OrderDto.total: Money, create field-path edges for each Money field
-    if (this.graphEngine) {
-      nodes.forEach((targetNode) => {
-        if (!targetNode.properties) return;
+    return { nodes, edges };
+  }
 
-        targetNode.properties.forEach((targetProp) => {
-          importedTypes.forEach((importFilePath, typeName) => {
-            const baseType = this.extractBaseType(targetProp.type);
+  /**
+   * Resolve every type referenced by the declaration's properties to the schema
+   * that declares it, following import aliases and re-exports to the source file.
+   */
+  private resolveReferences(
+    declaration: ts.Node,
+    graphNode: GraphNode,
+    sourceFile: ts.SourceFile,
+    checker: ts.TypeChecker
+  ): TypeReference[] {
+    let members: ts.NodeArray<ts.TypeElement | ts.ClassElement> | undefined;
+    if (ts.isInterfaceDeclaration(declaration) || ts.isClassDeclaration(declaration)) {
+      members = declaration.members;
+    } else if (ts.isTypeAliasDeclaration(declaration) && ts.isTypeLiteralNode(declaration.type)) {
+      members = declaration.type.members;
+    }
 
-            // Check if this property is a direct reference to an imported type
-            if (baseType === typeName) {
-              const sourceNodeId = `${importFilePath}:${typeName}`;
-              const sourceNode = this.graphEngine!.getNode(sourceNodeId);
-
-              // If source type has properties, create field-path edges
-              if (sourceNode && sourceNode.properties) {
-                sourceNode.properties.forEach((sourceField) => {
-                  edges.push({
-                    id: `${sourceNodeId}:${sourceField.name}-to-${targetNode.id}:${targetProp.name}.${sourceField.name}`,
-                    source: sourceNodeId,
-                    target: targetNode.id,
-                    type: "uses",
-                    confidence: 0.95,
-                    metadata: {
-                      layer: "field_path",
-                      sourceField: sourceField.name,
-                      targetProperty: targetProp.name,
-                      targetFieldPath: `${targetProp.name}.${sourceField.name}`,
-                      note: `${targetNode.name}.${targetProp.name} is ${typeName}, so ${typeName}.${sourceField.name} changes affect ${targetNode.name}.${targetProp.name}.${sourceField.name}`,
-                    },
-                  });
-                });
-              }
+    const references: TypeReference[] = [];
+    members?.forEach((member) => {
+      if (!(ts.isPropertySignature(member) || ts.isPropertyDeclaration(member))) return;
+      if (!member.name || !member.type) return;
+
+      const name = member.name.getText(sourceFile);
+      const property = graphNode.properties?.find((p) => p.name === name);
+      if (!property) return;
+
+      const seen = new Set<string>();
+      const visit = (node: ts.Node) => {
+        if (ts.isTypeReferenceNode(node)) {
+          const typeName = ts.isQualifiedName(node.typeName) ? node.typeName.right : node.typeName;
+          const target = this.declarationOf(checker.getSymbolAtLocation(typeName), checker);
+          if (target && target !== declaration) {
+            const sourceNodeId = this.generateId(
+              this.toRelativePath(target.getSourceFile().fileName),
+              target.name.text
+            );
+            if (!seen.has(sourceNodeId)) {
+              seen.add(sourceNodeId);
+              references.push({
+                target: graphNode,
+                property,
+                sourceNodeId,
+                typeName: target.name.text,
+              });
             }
-          });
-        });
-      });
+          }
+        }
+        ts.forEachChild(node, visit);
+      };
+      visit(member.type);
+    });
+
+    return references;
+  }
+
+  /**
+   * The schema declaration a symbol refers to, through import/export aliases.
+   * Declarations in .d.ts files and external libraries are not schemas.
+   */
+  private declarationOf(
+    symbol: ts.Symbol | undefined,
+    checker: ts.TypeChecker
+  ): SchemaDeclaration | undefined {
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = checker.getAliasedSymbol(symbol);
     }
 
-    return { nodes, edges };
+    const declaration = symbol?.declarations?.find(
+      (d) =>
+        ts.isInterfaceDeclaration(d) ||
+        ts.isClassDeclaration(d) ||
+        ts.isTypeAliasDeclaration(d) ||
+        ts.isEnumDeclaration(d)
+    );
+    if (!declaration?.name) return undefined;
+    const file = declaration.getSourceFile();
+    if (file.isDeclarationFile || this.program?.isSourceFileFromExternalLibrary(file)) {
+      return undefined;
+    }
+    return declaration as SchemaDeclaration;
   }
 
   private extractIntent(node: ts.Node, sourceFile: ts.SourceFile): string | undefined {
@@ -172,6 +336,53 @@ export class TypeScriptScanner {
     return undefined;
   }
 
+  /**
+   * Extract @tags, @system and @owner JSDoc tags
+   * e.g. `@tags pii, financial`, `@system payments`, `@owner team-x`
+   */
+  private extractAnnotations(node: ts.Node): OwnershipAnnotations {
+    const annotations: OwnershipAnnotations = {};
+
+    for (const tag of ts.getJSDocTags(node)) {
+      const name = tag.tagName.text;
+      const text = (ts.getTextOfJSDocComment(tag.comment) ?? "").trim();
+      if (!text) continue;
+
+      if (name === "tags") {
+        const tags = text
+          .split(/[,\s]+/)
+          .map((t) => t.trim().toLowerCase())
+          .filter((t) => t.length > 0);
+        annotations.tags = [...new Set([...(annotations.tags ?? []), ...tags])];
+      } else if (name === "system") {
+        annotations.system = text.split(/\s+/)[0].toLowerCase();
+      } else if (name === "owner") {
+        annotations.owner = text.split(/\s+/)[0];
+      }
+    }
+
+    return annotations;
+  }
+
+  /**
+   * Extract the previous name declared with `@renamedFrom oldName`
+   */
+  private extractRenamedFrom(node: ts.Node): string | undefined {
+    const tag = ts.getJSDocTags(node).find((t) => t.tagName.text === "renamedFrom");
+    const text = tag ? (ts.getTextOfJSDocComment(tag.comment) ?? "").trim() : "";
+    return text ? text.split(/\s+/)[0] : undefined;
+  }
+
+  private applyAnnotations(graphNode: GraphNode, node: ts.Node): void {
+    const annotations = this.extractAnnotations(node);
+    if (annotations.tags) graphNode.metadata.tags = annotations.tags;
+    if (annotations.system) graphNode.metadata.system = annotations.system;
+    if (annotations.owner) graphNode.metadata.owner = annotations.owner;
+
+    const renamedFrom = this.extractRenamedFrom(node);
+    if (renamedFrom) graphNode.metadata.renamedFrom = renamedFrom;
+  }
+
   private parseInterface(
     node: ts.InterfaceDeclaration,
     sourceFile: ts.SourceFile,
@@ -227,9 +438,13 @@ export class TypeScriptScanner {
   ): GraphNode {
     const name = node.name.text;
     let properties: PropertyInfo[] = [];
+    const metadata: GraphNode["metadata"] = { kind: "type" };
 
     if (ts.isTypeLiteralNode(node.type)) {
       properties = this.extractProperties(node.type.members, sourceFile);
+    } else {
+      // e.g. `type UserId = string`: keep the aliased type for rename detection
+      metadata.aliasedType = node.type.getText(sourceFile);
     }
 
     return {
@@ -239,7 +454,7 @@ export class TypeScriptScanner {
       filePath,
       fileHash,
       intent,
-      metadata: { kind: "type" },
+      metadata,
       properties,
       lastModified: new Date().toISOString(),
     };
@@ -283,7 +498,14 @@ export class TypeScriptScanner {
           // Extract JSDoc comment for field-level intent
           const description = this.extractPropertyDescription(member, sourceFile);
 
-          properties.push({ name, type, required, description });
+          properties.push({
+            name,
+            type,
+            required,
+            description,
+            renamedFrom: this.extractRenamedFrom(member),
+            ...this.extractAnnotations(member),
+          });
         }
       }
     });
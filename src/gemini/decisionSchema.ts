@@ -0,0 +1,101 @@
+/**
+ * JSON Schema for governor decisions.
+ * Sent to providers that support structured output and used to validate every response.
+ * Pure functions with no Node.js dependencies.
+ */
+
+import type { GovernorDecision } from "./governor.js";
+
+// The JSON Schema subset understood by every provider (and by validate below)
+export type JsonSchema = {
+  type: "object" | "array" | "string" | "number" | "boolean";
+  description?: string;
+  enum?: string[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+};
+
+export const GOVERNOR_DECISION_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    decision: { type: "string", enum: ["approve", "block", "escalate"] },
+    risk_level: { type: "string", enum: ["low", "medium", "high"] },
+    insight: {
+      type: "string",
+      description: "One sentence key finding that explains why this decision was made.",
+    },
+    reasoning: { type: "array", items: { type: "string" } },
+    conditions: { type: "array", items: { type: "string" } },
+    thinking: {
+      type: "string",
+      description: "Full analysis in markdown, following the requested sections.",
+    },
+  },
+  required: ["decision", "risk_level", "reasoning", "conditions"],
+};
+
+export type DecisionValidation =
+  | { valid: true; decision: GovernorDecision }
+  | { valid: false; errors: string[] };
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+/**
+ * Validate a value against a schema, returning errors as `$.path: message`
+ */
+export function validate(schema: JsonSchema, value: unknown, path: string = "$"): string[] {
+  const actual = typeOf(value);
+  if (actual !== schema.type) {
+    return [`${path}: expected ${schema.type}, got ${actual}`];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    errors.push(`${path}: must be one of ${schema.enum.join(", ")}, got ${JSON.stringify(value)}`);
+  }
+
+  if (schema.type === "array" && schema.items) {
+    (value as unknown[]).forEach((item, i) => {
+      errors.push(...validate(schema.items!, item, `${path}[${i}]`));
+    });
+  }
+
+  if (schema.type === "object") {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (obj[key] === undefined) errors.push(`${path}.${key}: is required`);
+    }
+    for (const [key, propSchema] of Object.entries(schema.properties ?? {})) {
+      if (obj[key] !== undefined) errors.push(...validate(propSchema, obj[key], `${path}.${key}`));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a parsed model response and narrow it to a GovernorDecision
+ */
+export function validateDecision(value: unknown): DecisionValidation {
+  const errors = validate(GOVERNOR_DECISION_SCHEMA, value);
+  if (errors.length > 0) return { valid: false, errors };
+
+  const obj = value as Record<string, unknown>;
+  return {
+    valid: true,
+    decision: {
+      decision: obj.decision as GovernorDecision["decision"],
+      risk_level: obj.risk_level as GovernorDecision["risk_level"],
+      insight: obj.insight as string | undefined,
+      reasoning: obj.reasoning as string[],
+      conditions: obj.conditions as string[],
+      thinking: obj.thinking as string | undefined,
+    },
+  };
+}
@@ -1,28 +1,45 @@
 import { readFile } from "node:fs/promises";
 import path from "node:path";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 
 import type { DottoArtifacts } from "../engine/dotto.js";
+import { evaluatePolicy, FiredRule, PolicyEvaluation } from "../policy/evaluator.js";
+import { findPrecedentMatch, PrecedentMatch } from "./precedent.js";
+import { runRulesGovernor } from "./rulesGovernor.js";
+import { GOVERNOR_DECISION_SCHEMA, validateDecision } from "./decisionSchema.js";
+import { buildBudgetedPrompt, PromptTrimming } from "./promptBudget.js";
+import { createModelProvider } from "./providers/index.js";
+import type {
+  GovernorModelProvider,
+  GovernorProviderName,
+  ModelRequest,
+} from "./providers/index.js";
 
 export type GovernorDecision = {
   decision: "approve" | "block" | "escalate";
   risk_level: "low" | "medium" | "high";
-  insight?: string; // Key finding quote from Gemini - the headline shown to humans
+  insight?: string; // Key finding quote from the model - the headline shown to humans
   reasoning: string[];
   conditions: string[];
-  thinking?: string; // Raw chain-of-thought from Gemini
+  thinking?: string; // Raw chain-of-thought from the model
   auto_authorized?: boolean;
   precedent_match?: {
     change_id: string;
     timestamp: string;
     similarity: number;
   };
+  policy_rules_fired?: FiredRule[]; // Deterministic policy rules that matched this change
+  prompt_trimming?: PromptTrimming; // How the artifacts were cut down to fit the model's context
 };
 
+// model: reason with an LLM provider, rules: derive the ruling deterministically
+export type GovernorMode = "model" | "rules";
+
 export type GovernorRunConfig = {
   artifactsDir: string;
   policyPath: string;
   memoryPath: string;
+  governor?: GovernorMode; // Defaults to "model"
+  provider?: GovernorProviderName; // Defaults to GOVERNOR_PROVIDER, then "gemini"
   model?: string;
 };
 
@@ -54,224 +71,93 @@ async function readJson(filePath: string): Promise<unknown> {
   return JSON.parse(raw);
 }
 
-// Drift as vector, not string
-type DriftVector = {
-  entity: string;
-  breaking: boolean;
-  changeType: "added" | "modified" | "removed";
-};
-
-type StoredDecision = {
-  timestamp: string;
-  change_id: string;
-  decision: "approve" | "block" | "escalate";
-  risk_level: "low" | "medium" | "high";
-  reasoning: string[];
-  drift_vectors?: DriftVector[]; // Structured for precedent matching
-  human_feedback: {
-    outcome: "accepted" | "overridden";
-    override_decision?: "approve" | "block";
-  };
-};
-
-type PrecedentMatch = {
-  change_id: string;
-  timestamp: string;
-  similarity: number;
-  decision: "approve" | "block";
-};
-
-// Explicit weights for similarity scoring
-const SIMILARITY_WEIGHTS = {
-  entity: 0.5,
-  breaking: 0.25,
-  changeType: 0.25,
-};
-
-function normalizeEntity(nodeId: string): string {
-  // Extract base entity name
-  let pattern = nodeId.split(":").pop() || nodeId;
-  // Remove common suffixes
-  pattern = pattern.replace(/Request|Response|DTO|Schema/gi, "");
-  // Collapse related suffixes to base entity
-  pattern = pattern.replace(/(Metadata|Amount|Method|Config|Settings)$/i, "");
-  return pattern.toLowerCase();
-}
-
-function extractDriftVectors(drift: unknown): DriftVector[] {
-  if (!drift || typeof drift !== "object") return [];
-
-  const driftObj = drift as Record<string, unknown>;
-  const diffs = Array.isArray(driftObj.diffs) ? driftObj.diffs : [];
-
-  const vectors: DriftVector[] = [];
-  for (const diff of diffs) {
-    if (diff && typeof diff === "object") {
-      const d = diff as Record<string, unknown>;
-      const nodeId = typeof d.nodeId === "string" ? d.nodeId : "";
-      const breaking = d.breaking === true;
-      const rawChangeType = typeof d.changeType === "string" ? d.changeType : "modified";
-
-      // Normalize changeType to our enum
-      let changeType: "added" | "modified" | "removed" = "modified";
-      if (rawChangeType === "added") changeType = "added";
-      else if (rawChangeType === "removed" || rawChangeType === "deleted") changeType = "removed";
-
-      vectors.push({
-        entity: normalizeEntity(nodeId),
-        breaking,
-        changeType,
-      });
-    }
-  }
-  return vectors;
-}
-
-// Compare two drift vectors
-function vectorSimilarity(a: DriftVector, b: DriftVector): number {
-  let score = 0;
-
-  if (a.entity === b.entity) {
-    score += SIMILARITY_WEIGHTS.entity;
-  }
-
-  if (a.breaking === b.breaking) {
-    score += SIMILARITY_WEIGHTS.breaking;
-  }
-
-  if (a.changeType === b.changeType) {
-    score += SIMILARITY_WEIGHTS.changeType;
-  }
-
-  return score;
-}
-
-// Compare two sets of drift vectors
-function setSimilarity(current: DriftVector[], prior: DriftVector[]): number {
-  if (current.length === 0) return 0;
+// Export for use in server when storing decisions
+export { extractChangeSignature, extractDriftVectors } from "./precedent.js";
+export type { DriftVector } from "./precedent.js";
 
-  let total = 0;
-  for (const c of current) {
-    let best = 0;
-    for (const p of prior) {
-      best = Math.max(best, vectorSimilarity(c, p));
-    }
-    total += best;
-  }
+const ANALYSIS_SECTIONS = `## Change Analysis
+[What changed? Breaking or non-breaking?]
 
-  return total / current.length;
-}
+## Policy Evaluation
+[Which policies apply? Any conflicts?]
 
-// Legacy support: extract string signatures for backwards compatibility
-function extractChangeSignature(drift: unknown): string[] {
-  const vectors = extractDriftVectors(drift);
-  return vectors.map((v) => `${v.entity}:${v.breaking ? "breaking" : "safe"}:${v.changeType}`);
-}
+## Precedent Check
+[Similar past decisions? Human feedback patterns?]
 
-function findPrecedentMatch(
-  currentDrift: unknown,
-  memory: unknown,
-  threshold: number = 0.6
-): PrecedentMatch | null {
-  const currentVectors = extractDriftVectors(currentDrift);
-  if (currentVectors.length === 0) return null;
-
-  // Get approved decisions from memory
-  if (!memory || typeof memory !== "object") return null;
-  const memoryObj = memory as Record<string, unknown>;
-  const decisions = Array.isArray(memoryObj.decisions)
-    ? (memoryObj.decisions as StoredDecision[])
-    : [];
-
-  // Only consider decisions that resulted in approval (either direct or override)
-  const approvedDecisions = decisions.filter((d) => {
-    if (d.human_feedback.outcome === "accepted" && d.decision === "approve") return true;
-    if (
-      d.human_feedback.outcome === "overridden" &&
-      d.human_feedback.override_decision === "approve"
-    )
-      return true;
-    return false;
-  });
+## Risk Assessment
+[Blast radius? Severity? Tradeoffs?]
 
-  if (approvedDecisions.length === 0) return null;
+## Intent Validation
+[Does stated intent match changes?]
 
-  let bestMatch: PrecedentMatch | null = null;
+## Judgment
+[Your decision rationale - especially note any UNCERTAINTY]`;
 
-  for (const prior of approvedDecisions) {
-    let similarity = 0;
+// Conditions phrased like this are stored in the receipt and enforced at deploy time
+const CONDITION_FORMS = `Conditions in these forms are enforced at deploy time; anything else is advisory:
+- "deploy only to <environment>[, <environment>]"
+- "requires feature flag <name> on|off"
+- "deploy window HH:MM-HH:MM UTC"
+`;
 
-    // If prior decision has stored drift vectors, use weighted similarity
-    if (prior.drift_vectors && prior.drift_vectors.length > 0) {
-      similarity = setSimilarity(currentVectors, prior.drift_vectors);
-    } else {
-      // No drift vectors stored - skip this decision for auto-authorization
-      // Text-based matching is too unreliable for precedent matching
-      // This decision can still inform Gemini's reasoning, just not auto-authorize
-      continue;
-    }
+const TAGGED_FORMAT = `FORMAT YOUR RESPONSE AS:
 
-    if (similarity >= threshold && (!bestMatch || similarity > bestMatch.similarity)) {
-      bestMatch = {
-        change_id: prior.change_id,
-        timestamp: prior.timestamp,
-        similarity,
-        decision: "approve",
-      };
-    }
-  }
+<reasoning>
+${ANALYSIS_SECTIONS}
+</reasoning>
 
-  return bestMatch;
+<decision>
+{
+  "decision": "approve | block | escalate",
+  "risk_level": "low | medium | high",
+  "insight": "One sentence key finding that explains WHY this decision was made. This is the headline quote shown to humans.",
+  "reasoning": ["summary point 1", "summary point 2", ...],
+  "conditions": ["condition 1 if any", ...]
 }
+</decision>
 
-// Export for use in server when storing decisions
-export { extractChangeSignature, extractDriftVectors, DriftVector };
+${CONDITION_FORMS}`;
 
-function coerceDecision(obj: unknown): GovernorDecision | null {
-  if (!obj || typeof obj !== "object") return null;
-  const anyObj = obj as Record<string, unknown>;
+// For providers that enforce the response schema, the analysis moves into "thinking"
+const STRUCTURED_FORMAT = `FORMAT YOUR RESPONSE AS a single JSON object matching the response schema:
+- "thinking": your analysis in markdown with these sections:
 
-  const decision = anyObj.decision;
-  const risk = anyObj.risk_level;
-  const insight = anyObj.insight;
-  const reasoning = anyObj.reasoning;
-  const conditions = anyObj.conditions;
+${ANALYSIS_SECTIONS}
 
-  const isDecision = decision === "approve" || decision === "block" || decision === "escalate";
-  const isRisk = risk === "low" || risk === "medium" || risk === "high";
-  const isInsight = typeof insight === "string" || insight === undefined;
-  const isReasoning = Array.isArray(reasoning) && reasoning.every((x) => typeof x === "string");
-  const isConditions = Array.isArray(conditions) && conditions.every((x) => typeof x === "string");
+- "decision": "approve" | "block" | "escalate"
+- "risk_level": "low" | "medium" | "high"
+- "insight": One sentence key finding that explains WHY this decision was made. This is the headline quote shown to humans.
+- "reasoning": summary points
+- "conditions": conditions, if any
 
-  if (!isDecision || !isRisk || !isInsight || !isReasoning || !isConditions) return null;
+${CONDITION_FORMS}`;
 
-  return {
-    decision,
-    risk_level: risk,
-    insight: typeof insight === "string" ? insight : undefined,
-    reasoning,
-    conditions,
-  };
-}
+// Invalid output gets one chance to be fixed before failing closed
+const MAX_REPAIR_ATTEMPTS = 1;
 
-function governorPrompt(inputs: {
-  artifacts: DottoArtifacts;
-  policy: unknown;
-  memory: unknown;
-  context?: GovernorRunContext;
-}): string {
+function governorPrompt(
+  inputs: {
+    artifacts: DottoArtifacts;
+    policy: unknown;
+    policy_evaluation: PolicyEvaluation;
+    memory: unknown;
+    context?: GovernorRunContext;
+  },
+  structured: boolean
+): string {
   return `You are Dotto-AI, an autonomous change-control governor for software systems.
 
 CRITICAL: You do NOT analyze code. Deterministic tools have already done that.
 Your role is to make JUDGMENT CALLS UNDER UNCERTAINTY that rule-based systems cannot make.
 
 You receive machine-verified inputs from a deterministic system called dotto:
-- graph.json: Dependency graph of schemas, APIs, DTOs, services
+- graph.json: Dependency graph of schemas, APIs, DTOs, services around the changed nodes
 - drift.json: Structured diff between Git states (what changed)
-- impact.json: Computed blast radius (what systems are affected)
+- impact.json: Computed blast radius (what systems are affected), summarised by distance
 - intent.json: Developer's stated purpose for the change
 - policy.json: Governance rules (what's allowed/restricted/forbidden)
-- memory.json: Past decisions and human feedback (precedents)
+- policy_evaluation: Rules that the deterministic policy engine already matched against drift.json
+- memory.json: The most relevant past decisions and human feedback (precedents)
 
 YOUR GOVERNANCE RESPONSIBILITIES:
 
@@ -300,171 +186,271 @@ DECISION OUTPUT:
 - BLOCK: Policy violation, unacceptable risk, or clear counter-precedent
 - ESCALATE: Policy conflict, ambiguous precedent, unclear intent, or judgment needed beyond deterministic rules
 
-FORMAT YOUR RESPONSE AS:
-
-<reasoning>
-## Change Analysis
-[What changed? Breaking or non-breaking?]
-
-## Policy Evaluation
-[Which policies apply? Any conflicts?]
-
-## Precedent Check
-[Similar past decisions? Human feedback patterns?]
-
-## Risk Assessment
-[Blast radius? Severity? Tradeoffs?]
-
-## Intent Validation
-[Does stated intent match changes?]
-
-## Judgment
-[Your decision rationale - especially note any UNCERTAINTY]
-</reasoning>
-
-<decision>
-{
-  "decision": "approve | block | escalate",
-  "risk_level": "low | medium | high",
-  "insight": "One sentence key finding that explains WHY this decision was made. This is the headline quote shown to humans.",
-  "reasoning": ["summary point 1", "summary point 2", ...],
-  "conditions": ["condition 1 if any", ...]
-}
-</decision>
-
+${structured ? STRUCTURED_FORMAT : TAGGED_FORMAT}
 INPUTS:
 ${JSON.stringify(inputs, null, 2)}
 `;
 }
 
+function policyDecision(evaluation: PolicyEvaluation): GovernorDecision {
+  const forbidding = evaluation.fired.filter((f) => f.action === evaluation.ruling);
+  return {
+    decision: evaluation.ruling ?? "escalate",
+    risk_level: "high",
+    insight: `Policy ${forbidding.map((f) => f.rule_id).join(", ")} requires ${evaluation.ruling} regardless of model judgment.`,
+    reasoning: [
+      "Deterministic policy evaluation short-circuited the governor.",
+      ...forbidding.map(
+        (f) =>
+          `Rule ${f.rule_id} (${f.action}) matched ${f.matched_nodes.join(", ")}${f.description ? `: ${f.description}` : ""}`
+      ),
+    ],
+    conditions:
+      evaluation.ruling === "block"
+        ? ["Change violates a blocking policy rule and cannot be deployed."]
+        : ["Record a human ruling before deployment."],
+    policy_rules_fired: evaluation.fired,
+  };
+}
+
 export async function runGovernor(
   config: GovernorRunConfig,
   artifacts: DottoArtifacts,
   context?: GovernorRunContext
 ): Promise<GovernorDecision> {
+  if (config.governor && config.governor !== "model" && config.governor !== "rules") {
+    return {
+      decision: "escalate",
+      risk_level: "high",
+      reasoning: [`Unknown governor mode: ${config.governor}`],
+      conditions: ["Set the governor mode to one of: model, rules."],
+    };
+  }
+
   const policy = await readJson(config.policyPath);
   const memory = await readJson(config.memoryPath);
 
-  // Check for precedent match before calling Gemini
-  // If a similar change was previously approved, auto-authorize
-  const precedentMatch = findPrecedentMatch(artifacts.drift, memory);
-  if (precedentMatch && precedentMatch.decision === "approve") {
+  // Policy rules are evaluated before precedent or model reasoning and always win
+  let evaluation: PolicyEvaluation;
+  try {
+    evaluation = evaluatePolicy(policy, artifacts.drift, artifacts.graph);
+  } catch (err) {
     return {
-      decision: "approve",
-      risk_level: "low",
+      decision: "escalate",
+      risk_level: "high",
       reasoning: [
-        `Auto-authorized via precedent match.`,
-        `Prior ruling: ${precedentMatch.change_id} (${new Date(precedentMatch.timestamp).toLocaleDateString()})`,
-        `Similarity: ${Math.round(precedentMatch.similarity * 100)}%`,
+        "Policy file could not be evaluated, so the governor cannot rule safely.",
+        `Policy loaded from: ${path.resolve(config.policyPath)}`,
+        `error=${formatError(err)}`,
       ],
       conditions: [
-        "This change matches a previously approved pattern.",
-        "Human review was not required.",
+        "Fix the policy file so every rule has an id, a match block and a valid action.",
       ],
-      auto_authorized: true,
-      precedent_match: {
-        change_id: precedentMatch.change_id,
-        timestamp: precedentMatch.timestamp,
-        similarity: precedentMatch.similarity,
-      },
     };
   }
 
-  // Collect all available API keys for fallback on rate limits
-  const apiKeys: string[] = [];
-  if (process.env.GEMINI_API_KEY) apiKeys.push(process.env.GEMINI_API_KEY);
-  if (process.env.GEMINI_API_KEY_2) apiKeys.push(process.env.GEMINI_API_KEY_2);
-  if (process.env.GEMINI_API_KEY_3) apiKeys.push(process.env.GEMINI_API_KEY_3);
+  if (evaluation.ruling) {
+    return policyDecision(evaluation);
+  }
+
+  // A change matching a human-approved precedent is auto-authorized in every mode
+  const precedentMatch = findPrecedentMatch(artifacts.drift, memory);
+  const decision =
+    precedentMatch && precedentMatch.decision === "approve"
+      ? precedentDecision(precedentMatch)
+      : config.governor === "rules"
+        ? runRulesGovernor(artifacts, evaluation)
+        : await runModelGovernor(config, artifacts, policy, evaluation, memory, context);
+  if (evaluation.fired.length > 0) {
+    decision.policy_rules_fired = evaluation.fired;
+  }
+  return decision;
+}
+
+function precedentDecision(precedentMatch: PrecedentMatch): GovernorDecision {
+  return {
+    decision: "approve",
+    risk_level: "low",
+    reasoning: [
+      `Auto-authorized via precedent match.`,
+      `Prior ruling: ${precedentMatch.change_id} (${new Date(precedentMatch.timestamp).toLocaleDateString()})`,
+      `Similarity: ${Math.round(precedentMatch.similarity * 100)}%`,
+    ],
+    conditions: [
+      "This change matches a previously approved pattern.",
+      "Human review was not required.",
+    ],
+    auto_authorized: true,
+    precedent_match: {
+      change_id: precedentMatch.change_id,
+      timestamp: precedentMatch.timestamp,
+      similarity: precedentMatch.similarity,
+    },
+  };
+}
+
+async function runModelGovernor(
+  config: GovernorRunConfig,
+  artifacts: DottoArtifacts,
+  policy: unknown,
+  evaluation: PolicyEvaluation,
+  memory: unknown,
+  context?: GovernorRunContext
+): Promise<GovernorDecision> {
+  let provider: GovernorModelProvider;
+  try {
+    provider = createModelProvider(
+      config.provider ?? process.env.GOVERNOR_PROVIDER ?? "gemini",
+      config.model
+    );
+  } catch (err) {
+    return {
+      decision: "escalate",
+      risk_level: "high",
+      reasoning: ["Governor model provider could not be created.", `error=${formatError(err)}`],
+      conditions: ["Set the governor provider to one of: gemini, openai, stub."],
+    };
+  }
 
-  if (apiKeys.length === 0) {
+  const setupHint = provider.missingConfiguration();
+  if (setupHint) {
     return {
       decision: "escalate",
       risk_level: "high",
       reasoning: [
-        "GEMINI_API_KEY is not set, so the governor cannot perform policy and precedent reasoning.",
+        `${provider.label} is not configured, so the governor cannot perform policy and precedent reasoning.`,
         `Artifacts loaded from: ${config.artifactsDir}`,
         `Policy loaded from: ${path.resolve(config.policyPath)}`,
         `Memory loaded from: ${path.resolve(config.memoryPath)}`,
       ],
-      conditions: ["Set GEMINI_API_KEY in the CI environment to enable Gemini reasoning."],
+      conditions: [setupHint],
     };
   }
 
-  const modelName = config.model ?? process.env.GEMINI_MODEL ?? "gemini-3-flash-preview";
-  let currentKeyIndex = 0;
-  let genAI = new GoogleGenerativeAI(apiKeys[currentKeyIndex]);
-  let model = genAI.getGenerativeModel({ model: modelName });
+  const structured = provider.supportsResponseSchema;
+  let budgeted: ReturnType<typeof buildBudgetedPrompt>;
+  try {
+    budgeted = buildBudgetedPrompt(
+      {
+        artifacts,
+        policy,
+        policy_evaluation: evaluation,
+        memory,
+        context,
+      },
+      (inputs) => governorPrompt(inputs, structured)
+    );
+  } catch (err) {
+    return {
+      decision: "escalate",
+      risk_level: "high",
+      reasoning: ["Governor prompt could not be built.", `error=${formatError(err)}`],
+      conditions: ["Set GOVERNOR_PROMPT_TOKEN_BUDGET to a positive number of tokens."],
+    };
+  }
+  const { prompt, trimming } = budgeted;
+
+  // Never send a prompt the model cannot take in full: rule deterministically instead
+  if (trimming.over_budget) {
+    const fallback = runRulesGovernor(artifacts, evaluation);
+    fallback.reasoning = [
+      `Governor prompt needs ~${trimming.estimated_tokens} tokens after trimming, over the ${trimming.token_budget} token budget; ruled by the rules governor instead of ${provider.label}.`,
+      ...fallback.reasoning,
+    ];
+    fallback.prompt_trimming = trimming;
+    return fallback;
+  }
 
-  const prompt = governorPrompt({ artifacts, policy, memory, context });
+  const decision = await generateDecision(provider, {
+    prompt,
+    artifacts,
+    responseSchema: structured ? GOVERNOR_DECISION_SCHEMA : undefined,
+  });
+  decision.prompt_trimming = trimming;
+  return decision;
+}
+
+type ProviderResult = { ok: true; text: string } | { ok: false; error: unknown; keysTried: number };
+
+type ParsedResponse =
+  | { valid: true; decision: GovernorDecision }
+  | { valid: false; errors: string[]; thinking?: string };
+
+/**
+ * Call a provider, validate its output and give it a bounded chance to repair invalid output.
+ * Anything still invalid fails closed to escalate.
+ */
+async function generateDecision(
+  provider: GovernorModelProvider,
+  request: ModelRequest
+): Promise<GovernorDecision> {
+  const result = await callProvider(provider, request);
+  if (!result.ok) {
+    return requestFailedDecision(provider, result.error, result.keysTried);
+  }
+
+  let text = result.text;
+  let parsed = parseModelResponse(text);
+  for (let repair = 0; !parsed.valid && repair < MAX_REPAIR_ATTEMPTS; repair++) {
+    console.log(`Invalid ${provider.label} output, requesting repair:`, parsed.errors);
+    const repaired = await callProvider(provider, {
+      ...request,
+      prompt: repairPrompt(text, parsed.errors),
+    });
+    if (!repaired.ok) break;
+    text = repaired.text;
+    parsed = parseModelResponse(text);
+  }
+
+  if (parsed.valid) {
+    return parsed.decision;
+  }
+
+  return {
+    decision: "escalate",
+    risk_level: "high",
+    reasoning: [
+      `${provider.label} output failed schema validation after ${MAX_REPAIR_ATTEMPTS} repair attempt(s) and cannot be consumed by CI/CD safely.`,
+      ...parsed.errors.map((e) => `Validation error: ${e}`),
+    ],
+    conditions: ["Fix the governor prompt or model settings to match the required schema exactly."],
+    thinking: parsed.thinking,
+  };
+}
 
-  const timeoutMs = Number(process.env.GEMINI_TIMEOUT_MS ?? 100000);
-  const maxRetries = Number(process.env.GEMINI_MAX_RETRIES ?? 2);
+/**
+ * Call a provider with shared timeout, retry and key rotation
+ */
+async function callProvider(
+  provider: GovernorModelProvider,
+  request: ModelRequest
+): Promise<ProviderResult> {
+  const apiKeys = provider.apiKeys;
+  const timeoutMs = Number(
+    process.env.GOVERNOR_TIMEOUT_MS ?? process.env.GEMINI_TIMEOUT_MS ?? 100000
+  );
+  const maxRetries = Number(
+    process.env.GOVERNOR_MAX_RETRIES ?? process.env.GEMINI_MAX_RETRIES ?? 2
+  );
+  let currentKeyIndex = 0;
 
   let lastErr: unknown;
   for (let attempt = 0; attempt <= maxRetries; attempt++) {
     try {
-      const result = await withTimeout(model.generateContent(prompt), timeoutMs, "Gemini request");
-      const text = result.response.text();
+      const text = await withTimeout(
+        provider.generate(request, apiKeys[currentKeyIndex]),
+        timeoutMs,
+        `${provider.label} request`
+      );
 
       console.log({ text });
-      // Extract reasoning/thinking and decision from the response
-      // Support both <reasoning> (new) and <thinking> (legacy) tags
-      const reasoningMatch =
-        text.match(/<reasoning>([\s\S]*?)<\/reasoning>/i) ||
-        text.match(/<thinking>([\s\S]*?)<\/thinking>/i);
-      const decisionMatch = text.match(/<decision>([\s\S]*?)<\/decision>/i);
-
-      const thinking = reasoningMatch ? reasoningMatch[1].trim() : null;
-      const decisionText = decisionMatch ? decisionMatch[1].trim() : text;
-
-      let parsed: unknown;
-      try {
-        const cleaned = decisionText
-          .trim()
-          .replace(/^```json\s*|^```\s*|```$/gm, "")
-          .trim();
-        parsed = JSON.parse(cleaned);
-      } catch (error) {
-        console.log({ error });
-        // Fail closed: require a machine-readable output.
-        return {
-          decision: "escalate",
-          risk_level: "high",
-          reasoning: ["Gemini response was not valid JSON and cannot be consumed by CI/CD safely."],
-          conditions: [
-            "Ensure the model is configured to output strict JSON only.",
-            `Raw output: ${text}`,
-          ],
-          thinking: thinking || undefined,
-        };
-      }
-
-      const decision = coerceDecision(parsed);
-      if (!decision) {
-        return {
-          decision: "escalate",
-          risk_level: "high",
-          reasoning: ["Gemini returned JSON that does not match the required decision schema."],
-          conditions: [
-            "Fix the governor prompt or model settings to match the required schema exactly.",
-            `Raw JSON: ${text}`,
-          ],
-          thinking: thinking || undefined,
-        };
-      }
-
-      // Include the thinking in the decision
-      if (thinking) {
-        decision.thinking = thinking;
-      }
-
-      return decision;
+      return { ok: true, text };
     } catch (err) {
       console.log({ err });
       lastErr = err;
 
       // Check if this is a rate limit error (429)
-      // Google SDK errors have status property directly on the error object
+      // SDK and provider errors carry the status directly on the error object
       const errObj = err as { status?: number; statusText?: string; message?: string };
       const errStr = String(err);
       const isRateLimitError =
@@ -487,8 +473,6 @@ export async function runGovernor(
         console.log(
           `Rate limit hit, switching to API key ${currentKeyIndex + 1} of ${apiKeys.length}`
         );
-        genAI = new GoogleGenerativeAI(apiKeys[currentKeyIndex]);
-        model = genAI.getGenerativeModel({ model: modelName });
         // Don't count this as a retry, try immediately with new key
         attempt--;
         continue;
@@ -500,21 +484,110 @@ export async function runGovernor(
     }
   }
 
+  return { ok: false, error: lastErr, keysTried: Math.min(currentKeyIndex + 1, apiKeys.length) };
+}
+
+function requestFailedDecision(
+  provider: GovernorModelProvider,
+  error: unknown,
+  keysTried: number
+): GovernorDecision {
+  const apiKeys = provider.apiKeys;
   return {
     decision: "escalate",
     risk_level: "high",
     reasoning: [
-      "Gemini request failed and could not be completed within the configured retry/timeout budget.",
-      `model=${modelName}`,
-      `error=${formatError(lastErr)}`,
-      `API keys tried: ${currentKeyIndex + 1} of ${apiKeys.length}`,
+      `${provider.label} request failed and could not be completed within the configured retry/timeout budget.`,
+      `provider=${provider.name}`,
+      `model=${provider.model}`,
+      `error=${formatError(error)}`,
+      `API keys tried: ${keysTried} of ${apiKeys.length}`,
     ],
     conditions: [
       "Retry the pipeline when network connectivity is stable.",
-      "If this persists, increase GEMINI_TIMEOUT_MS or GEMINI_MAX_RETRIES in CI, or investigate outbound network/proxy settings.",
+      "If this persists, increase GOVERNOR_TIMEOUT_MS or GOVERNOR_MAX_RETRIES in CI, or investigate outbound network/proxy settings.",
       apiKeys.length > 1
         ? "All available API keys were exhausted due to rate limits."
-        : "Consider adding GEMINI_API_KEY_2 or GEMINI_API_KEY_3 for rate limit fallback.",
+        : "Consider adding a _2 or _3 API key for rate limit fallback.",
     ],
   };
 }
+
+function repairPrompt(previous: string, errors: string[]): string {
+  return `Your previous response could not be used because it does not match the required decision schema.
+
+Validation errors:
+${errors.map((e) => `- ${e}`).join("\n")}
+
+Previous response:
+${previous}
+
+Return only the corrected decision as a single JSON object matching this schema, with no other text:
+${JSON.stringify(GOVERNOR_DECISION_SCHEMA, null, 2)}
+`;
+}
+
+/**
+ * Find the first balanced JSON object in free text (handles fences and surrounding prose)
+ */
+function extractJsonObject(text: string): string | null {
+  const start = text.indexOf("{");
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === "\\") escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === "{") {
+      depth++;
+    } else if (ch === "}") {
+      depth--;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+  return null;
+}
+
+/**
+ * Extract and validate the decision JSON from a model response
+ */
+function parseModelResponse(text: string): ParsedResponse {
+  // Extract reasoning/thinking and decision from the response
+  // Support both <reasoning> (new) and <thinking> (legacy) tags
+  const reasoningMatch =
+    text.match(/<reasoning>([\s\S]*?)<\/reasoning>/i) ||
+    text.match(/<thinking>([\s\S]*?)<\/thinking>/i);
+  const decisionMatch = text.match(/<decision>([\s\S]*?)<\/decision>/i);
+
+  const thinking = reasoningMatch ? reasoningMatch[1].trim() : undefined;
+  const json = extractJsonObject(decisionMatch ? decisionMatch[1] : text);
+  if (!json) {
+    return { valid: false, errors: ["$: response contains no JSON object"], thinking };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (error) {
+    return { valid: false, errors: [`$: invalid JSON (${formatError(error)})`], thinking };
+  }
+
+  const validation = validateDecision(parsed);
+  if (!validation.valid) {
+    return { valid: false, errors: validation.errors, thinking };
+  }
+
+  // Tagged reasoning wins; structured responses carry it in "thinking"
+  const decision = validation.decision;
+  if (thinking) {
+    decision.thinking = thinking;
+  }
+  return { valid: true, decision };
+}
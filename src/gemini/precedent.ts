@@ -0,0 +1,201 @@
+/**
+ * Precedent matching for the governor.
+ * Compares the current drift against past human-approved decisions in memory.json.
+ */
+
+// Drift as vector, not string
+export type DriftVector = {
+  entity: string;
+  breaking: boolean;
+  changeType: "added" | "modified" | "removed";
+};
+
+type StoredDecision = {
+  timestamp: string;
+  change_id: string;
+  decision: "approve" | "block" | "escalate";
+  risk_level: "low" | "medium" | "high";
+  reasoning: string[];
+  drift_vectors?: DriftVector[]; // Structured for precedent matching
+  human_feedback: {
+    outcome: "accepted" | "overridden";
+    override_decision?: "approve" | "block";
+  };
+};
+
+export type PrecedentMatch = {
+  change_id: string;
+  timestamp: string;
+  similarity: number;
+  decision: "approve" | "block";
+};
+
+// Explicit weights for similarity scoring
+const SIMILARITY_WEIGHTS = {
+  entity: 0.5,
+  breaking: 0.25,
+  changeType: 0.25,
+};
+
+function normalizeEntity(nodeId: string): string {
+  // Extract base entity name
+  let pattern = nodeId.split(":").pop() || nodeId;
+  // Remove common suffixes
+  pattern = pattern.replace(/Request|Response|DTO|Schema/gi, "");
+  // Collapse related suffixes to base entity
+  pattern = pattern.replace(/(Metadata|Amount|Method|Config|Settings)$/i, "");
+  return pattern.toLowerCase();
+}
+
+export function extractDriftVectors(drift: unknown): DriftVector[] {
+  if (!drift || typeof drift !== "object") return [];
+
+  const driftObj = drift as Record<string, unknown>;
+  const diffs = Array.isArray(driftObj.diffs) ? driftObj.diffs : [];
+
+  const vectors: DriftVector[] = [];
+  for (const diff of diffs) {
+    if (diff && typeof diff === "object") {
+      const d = diff as Record<string, unknown>;
+      const nodeId = typeof d.nodeId === "string" ? d.nodeId : "";
+      const breaking = d.breaking === true;
+      const rawChangeType = typeof d.changeType === "string" ? d.changeType : "modified";
+
+      // Normalize changeType to our enum
+      let changeType: "added" | "modified" | "removed" = "modified";
+      if (rawChangeType === "added") changeType = "added";
+      else if (rawChangeType === "removed" || rawChangeType === "deleted") changeType = "removed";
+
+      vectors.push({
+        entity: normalizeEntity(nodeId),
+        breaking,
+        changeType,
+      });
+    }
+  }
+  return vectors;
+}
+
+// Compare two drift vectors
+function vectorSimilarity(a: DriftVector, b: DriftVector): number {
+  let score = 0;
+
+  if (a.entity === b.entity) {
+    score += SIMILARITY_WEIGHTS.entity;
+  }
+
+  if (a.breaking === b.breaking) {
+    score += SIMILARITY_WEIGHTS.breaking;
+  }
+
+  if (a.changeType === b.changeType) {
+    score += SIMILARITY_WEIGHTS.changeType;
+  }
+
+  return score;
+}
+
+// Compare two sets of drift vectors
+function setSimilarity(current: DriftVector[], prior: DriftVector[]): number {
+  if (current.length === 0) return 0;
+
+  let total = 0;
+  for (const c of current) {
+    let best = 0;
+    for (const p of prior) {
+      best = Math.max(best, vectorSimilarity(c, p));
+    }
+    total += best;
+  }
+
+  return total / current.length;
+}
+
+// Legacy support: extract string signatures for backwards compatibility
+export function extractChangeSignature(drift: unknown): string[] {
+  const vectors = extractDriftVectors(drift);
+  return vectors.map((v) => `${v.entity}:${v.breaking ? "breaking" : "safe"}:${v.changeType}`);
+}
+
+export function findPrecedentMatch(
+  currentDrift: unknown,
+  memory: unknown,
+  threshold: number = 0.6
+): PrecedentMatch | null {
+  const currentVectors = extractDriftVectors(currentDrift);
+  if (currentVectors.length === 0) return null;
+
+  // Get approved decisions from memory
+  if (!memory || typeof memory !== "object") return null;
+  const memoryObj = memory as Record<string, unknown>;
+  const decisions = Array.isArray(memoryObj.decisions)
+    ? (memoryObj.decisions as StoredDecision[])
+    : [];
+
+  // Only consider decisions that resulted in approval (either direct or override)
+  const approvedDecisions = decisions.filter((d) => {
+    if (d.human_feedback.outcome === "accepted" && d.decision === "approve") return true;
+    if (
+      d.human_feedback.outcome === "overridden" &&
+      d.human_feedback.override_decision === "approve"
+    )
+      return true;
+    return false;
+  });
+
+  if (approvedDecisions.length === 0) return null;
+
+  let bestMatch: PrecedentMatch | null = null;
+
+  for (const prior of approvedDecisions) {
+    let similarity = 0;
+
+    // If prior decision has stored drift vectors, use weighted similarity
+    if (prior.drift_vectors && prior.drift_vectors.length > 0) {
+      similarity = setSimilarity(currentVectors, prior.drift_vectors);
+    } else {
+      // No drift vectors stored - skip this decision for auto-authorization
+      // Text-based matching is too unreliable for precedent matching
+      // This decision can still inform the model's reasoning, just not auto-authorize
+      continue;
+    }
+
+    if (similarity >= threshold && (!bestMatch || similarity > bestMatch.similarity)) {
+      bestMatch = {
+        change_id: prior.change_id,
+        timestamp: prior.timestamp,
+        similarity,
+        decision: "approve",
+      };
+    }
+  }
+
+  return bestMatch;
+}
+
+/**
+ * Rank every stored decision by similarity to the current drift, most relevant first.
+ * Unlike findPrecedentMatch this keeps blocks and escalations, which still inform reasoning.
+ * Decisions without drift vectors score 0 and fall back to recency.
+ */
+export function rankPrecedents(currentDrift: unknown, memory: unknown, limit: number): unknown[] {
+  if (!memory || typeof memory !== "object") return [];
+  const memoryObj = memory as Record<string, unknown>;
+  const decisions = Array.isArray(memoryObj.decisions)
+    ? (memoryObj.decisions as StoredDecision[])
+    : [];
+
+  const currentVectors = extractDriftVectors(currentDrift);
+  return decisions
+    .map((decision) => ({
+      decision,
+      similarity:
+        decision.drift_vectors && decision.drift_vectors.length > 0
+          ? setSimilarity(currentVectors, decision.drift_vectors)
+          : 0,
+      time: Date.parse(decision.timestamp) || 0,
+    }))
+    .sort((a, b) => b.similarity - a.similarity || b.time - a.time)
+    .slice(0, limit)
+    .map((ranked) => ranked.decision);
+}
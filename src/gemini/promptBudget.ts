@@ -0,0 +1,226 @@
+/**
+ * Prompt budget management for the governor.
+ * Shrinks the artifacts sent to the model so large repositories stay within context limits:
+ * graph.json is cut to the subgraph around changed nodes, impact.json is summarised by
+ * distance and memory is reduced to the most relevant precedents.
+ */
+
+import type { DottoArtifacts } from "../engine/dotto.js";
+import { rankPrecedents } from "./precedent.js";
+
+export type PromptTrimming = {
+  token_budget: number;
+  untrimmed_tokens: number;
+  estimated_tokens: number;
+  graph: {
+    depth: number;
+    nodes_kept: number;
+    nodes_total: number;
+    edges_kept: number;
+    edges_total: number;
+  };
+  impact: { analyses: number; impacted_nodes: number };
+  precedents: { kept: number; total: number };
+  steps: string[]; // Trimming steps applied, in order
+  over_budget: boolean;
+};
+
+export type PromptBudgetOptions = {
+  tokenBudget?: number;
+  graphDepth?: number;
+  precedentLimit?: number;
+};
+
+// Any governor prompt input that carries artifacts and memory
+type PromptInputs = { artifacts: DottoArtifacts; memory: unknown };
+
+type GraphRecord = Record<string, unknown> & { id?: string; source?: string; target?: string };
+
+const DEFAULT_TOKEN_BUDGET = 60000;
+const DEFAULT_GRAPH_DEPTH = 2;
+const DEFAULT_PRECEDENT_LIMIT = 5;
+
+// Nodes listed per distance in the impact summary
+const IMPACT_SAMPLE_SIZE = 5;
+
+/**
+ * Rough token estimate (~4 characters per token for JSON-heavy English text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function asRecords(value: unknown): GraphRecord[] {
+  if (Array.isArray(value)) return value as GraphRecord[];
+  if (value && typeof value === "object") return Object.values(value) as GraphRecord[];
+  return [];
+}
+
+function changedNodeIds(drift: unknown): Set<string> {
+  const ids = new Set<string>();
+  const diffs = (drift as { diffs?: unknown } | undefined)?.diffs;
+  for (const diff of Array.isArray(diffs) ? diffs : []) {
+    if (typeof diff?.nodeId === "string") ids.add(diff.nodeId);
+    if (typeof diff?.previousNodeId === "string") ids.add(diff.previousNodeId);
+  }
+  return ids;
+}
+
+/**
+ * Keep nodes within `depth` hops of a changed node, following edges in both directions
+ */
+function trimGraph(graph: unknown, changed: Set<string>, depth: number) {
+  const graphObj = (graph && typeof graph === "object" ? graph : {}) as Record<string, unknown>;
+  const nodes = asRecords(graphObj.nodes);
+  const edges = asRecords(graphObj.edges);
+
+  const neighbours = new Map<string, string[]>();
+  for (const edge of edges) {
+    if (!edge.source || !edge.target) continue;
+    neighbours.set(edge.source, [...(neighbours.get(edge.source) ?? []), edge.target]);
+    neighbours.set(edge.target, [...(neighbours.get(edge.target) ?? []), edge.source]);
+  }
+
+  const kept = new Set(changed);
+  let frontier = [...changed];
+  for (let hop = 0; hop < depth; hop++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const neighbour of neighbours.get(id) ?? []) {
+        if (!kept.has(neighbour)) {
+          kept.add(neighbour);
+          next.push(neighbour);
+        }
+      }
+    }
+    frontier = next;
+  }
+
+  const keptNodes = nodes.filter((n) => n.id && kept.has(n.id));
+  const keptEdges = edges.filter(
+    (e) => e.source && e.target && kept.has(e.source) && kept.has(e.target)
+  );
+
+  return {
+    graph: {
+      ...graphObj,
+      nodes: Object.fromEntries(keptNodes.map((n) => [n.id, n])),
+      edges: Object.fromEntries(keptEdges.map((e) => [e.id, e])),
+    },
+    stats: {
+      depth,
+      nodes_kept: keptNodes.length,
+      nodes_total: nodes.length,
+      edges_kept: keptEdges.length,
+      edges_total: edges.length,
+    },
+  };
+}
+
+/**
+ * Replace per-node downstream lists with counts by distance and a few nearest examples
+ */
+function summariseImpact(impact: unknown) {
+  const impactObj = (impact && typeof impact === "object" ? impact : {}) as Record<string, unknown>;
+  const analyses = Array.isArray(impactObj.analyses) ? impactObj.analyses : [];
+  let impactedNodes = 0;
+
+  const summarised = analyses.map((analysis: Record<string, unknown>) => {
+    const downstream = Array.isArray(analysis.downstream)
+      ? (analysis.downstream as Array<{ nodeId: string; distance: number }>)
+      : [];
+    impactedNodes += downstream.length;
+
+    const byDistance: Record<string, { count: number; sample: string[] }> = {};
+    for (const item of [...downstream].sort((a, b) => a.distance - b.distance)) {
+      const bucket = (byDistance[String(item.distance)] ??= { count: 0, sample: [] });
+      bucket.count++;
+      if (bucket.sample.length < IMPACT_SAMPLE_SIZE) bucket.sample.push(item.nodeId);
+    }
+
+    const rest = Object.fromEntries(Object.entries(analysis).filter(([k]) => k !== "downstream"));
+    return { ...rest, downstreamCount: downstream.length, byDistance };
+  });
+
+  return {
+    impact: { ...impactObj, analyses: summarised },
+    stats: { analyses: analyses.length, impacted_nodes: impactedNodes },
+  };
+}
+
+/**
+ * Render the prompt with progressively smaller inputs until it fits the token budget.
+ * Throws when the budget (option or GOVERNOR_PROMPT_TOKEN_BUDGET) is not a positive number.
+ */
+export function buildBudgetedPrompt<T extends PromptInputs>(
+  inputs: T,
+  render: (inputs: T) => string,
+  options: PromptBudgetOptions = {}
+): { prompt: string; trimming: PromptTrimming } {
+  const tokenBudget =
+    options.tokenBudget ?? Number(process.env.GOVERNOR_PROMPT_TOKEN_BUDGET ?? DEFAULT_TOKEN_BUDGET);
+  if (!Number.isFinite(tokenBudget) || tokenBudget <= 0) {
+    throw new Error(
+      `Invalid prompt token budget: ${options.tokenBudget ?? process.env.GOVERNOR_PROMPT_TOKEN_BUDGET}`
+    );
+  }
+  const precedentLimit = options.precedentLimit ?? DEFAULT_PRECEDENT_LIMIT;
+  const { artifacts, memory } = inputs;
+
+  const untrimmedTokens = estimateTokens(render(inputs));
+  const changed = changedNodeIds(artifacts.drift);
+  const steps: string[] = [];
+
+  const attempt = (depth: number, precedents: number) => {
+    const graph = trimGraph(artifacts.graph, changed, depth);
+    const impact = summariseImpact(artifacts.impact);
+    const decisions = rankPrecedents(artifacts.drift, memory, precedents);
+    const trimmed = {
+      ...inputs,
+      artifacts: { ...artifacts, graph: graph.graph, impact: impact.impact },
+      memory: { ...(memory as object), decisions },
+    };
+    const prompt = render(trimmed);
+    return { prompt, tokens: estimateTokens(prompt), graph, impact, decisions };
+  };
+
+  let depth = options.graphDepth ?? DEFAULT_GRAPH_DEPTH;
+  let precedents = precedentLimit;
+  steps.push(
+    `graph trimmed to ${depth} hop(s) around changed nodes`,
+    "impact summarised by distance",
+    `memory limited to top ${precedents} precedent(s)`
+  );
+  let result = attempt(depth, precedents);
+
+  // Still too large: drop graph neighbours, then all but the closest precedent
+  if (result.tokens > tokenBudget && depth > 0) {
+    depth = 0;
+    steps.push("graph reduced to changed nodes only");
+    result = attempt(depth, precedents);
+  }
+  if (result.tokens > tokenBudget && precedents > 1) {
+    precedents = 1;
+    steps.push("memory reduced to the single closest precedent");
+    result = attempt(depth, precedents);
+  }
+
+  const totalDecisions = (memory as { decisions?: unknown } | undefined)?.decisions;
+
+  return {
+    prompt: result.prompt,
+    trimming: {
+      token_budget: tokenBudget,
+      untrimmed_tokens: untrimmedTokens,
+      estimated_tokens: result.tokens,
+      graph: result.graph.stats,
+      impact: result.impact.stats,
+      precedents: {
+        kept: result.decisions.length,
+        total: Array.isArray(totalDecisions) ? totalDecisions.length : 0,
+      },
+      steps,
+      over_budget: result.tokens > tokenBudget,
+    },
+  };
+}
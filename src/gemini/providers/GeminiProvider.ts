@@ -0,0 +1,72 @@
+/**
+ * Google Gemini model provider
+ */
+
+import { GoogleGenerativeAI, ResponseSchema, Schema } from "@google/generative-ai";
+import { GovernorModelProvider, ModelRequest, keysFromEnv } from "./ModelProvider.js";
+import type { JsonSchema } from "../decisionSchema.js";
+
+/**
+ * Gemini takes an OpenAPI subset where string enums are marked with format "enum"
+ */
+function toGeminiSchema(schema: JsonSchema): Schema {
+  return {
+    type: schema.type as Schema["type"],
+    description: schema.description,
+    ...(schema.enum ? { format: "enum", enum: schema.enum } : {}),
+    ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+    ...(schema.properties
+      ? {
+          properties: Object.fromEntries(
+            Object.entries(schema.properties).map(([k, v]) => [k, toGeminiSchema(v)])
+          ),
+        }
+      : {}),
+    ...(schema.required ? { required: schema.required } : {}),
+  };
+}
+
+export class GeminiProvider implements GovernorModelProvider {
+  readonly name = "gemini";
+  readonly label = "Gemini";
+  readonly model: string;
+  readonly supportsResponseSchema = true;
+  readonly apiKeys: string[];
+  private clients = new Map<string, GoogleGenerativeAI>();
+
+  constructor(model?: string) {
+    this.model = model ?? process.env.GEMINI_MODEL ?? "gemini-3-flash-preview";
+    this.apiKeys = keysFromEnv("GEMINI_API_KEY");
+  }
+
+  missingConfiguration(): string | null {
+    return this.apiKeys.length === 0
+      ? "Set GEMINI_API_KEY in the CI environment to enable Gemini reasoning."
+      : null;
+  }
+
+  async generate(request: ModelRequest, apiKey: string | undefined): Promise<string> {
+    if (!apiKey) {
+      throw new Error("Gemini requires an API key");
+    }
+
+    let client = this.clients.get(apiKey);
+    if (!client) {
+      client = new GoogleGenerativeAI(apiKey);
+      this.clients.set(apiKey, client);
+    }
+
+    const model = client.getGenerativeModel({
+      model: this.model,
+      generationConfig: request.responseSchema
+        ? {
+            responseMimeType: "application/json",
+            responseSchema: toGeminiSchema(request.responseSchema) as ResponseSchema,
+          }
+        : undefined,
+    });
+
+    const result = await model.generateContent(request.prompt);
+    return result.response.text();
+  }
+}
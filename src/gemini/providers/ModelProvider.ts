@@ -0,0 +1,67 @@
+/**
+ * Pluggable model provider interface for the governor
+ * Providers only turn a prompt into text; retries, key rotation, timeouts
+ * and fail-closed parsing live in the governor so every provider shares them
+ */
+
+import type { DottoArtifacts } from "../../engine/dotto.js";
+import type { JsonSchema } from "../decisionSchema.js";
+
+export type GovernorProviderName = "gemini" | "openai" | "stub";
+
+export interface ModelRequest {
+  prompt: string;
+  artifacts: DottoArtifacts;
+  responseSchema?: JsonSchema; // Only set when the provider supports structured output
+}
+
+export interface GovernorModelProvider {
+  readonly name: GovernorProviderName;
+  readonly label: string; // Human-readable name used in decision reasoning
+  readonly model: string;
+
+  /**
+   * Whether the provider can constrain output to a JSON response schema
+   */
+  readonly supportsResponseSchema: boolean;
+
+  /**
+   * Credentials to rotate through on rate limits, in order
+   */
+  readonly apiKeys: string[];
+
+  /**
+   * Setup instructions when the provider needs a key and none is configured, otherwise null
+   */
+  missingConfiguration(): string | null;
+
+  /**
+   * Generate a raw model response
+   * @param apiKey The key currently selected by the governor's rotation (undefined if keyless)
+   */
+  generate(request: ModelRequest, apiKey: string | undefined): Promise<string>;
+}
+
+/**
+ * Error carrying an HTTP status so the governor can detect rate limits uniformly
+ */
+export class ProviderError extends Error {
+  readonly status?: number;
+  readonly statusText?: string;
+
+  constructor(message: string, status?: number, statusText?: string) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+    this.statusText = statusText;
+  }
+}
+
+/**
+ * Collect NAME, NAME_2, NAME_3 from the environment
+ */
+export function keysFromEnv(name: string): string[] {
+  return [name, `${name}_2`, `${name}_3`]
+    .map((key) => process.env[key])
+    .filter((value): value is string => !!value);
+}
@@ -0,0 +1,79 @@
+/**
+ * OpenAI-compatible chat completions provider
+ * Works with api.openai.com and local servers exposing the same API (llama.cpp, Ollama, vLLM)
+ */
+
+import {
+  GovernorModelProvider,
+  ModelRequest,
+  ProviderError,
+  keysFromEnv,
+} from "./ModelProvider.js";
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+type ChatCompletionResponse = {
+  choices?: Array<{ message?: { content?: string | null } }>;
+};
+
+export class OpenAICompatibleProvider implements GovernorModelProvider {
+  readonly name = "openai";
+  readonly label = "OpenAI-compatible model";
+  readonly model: string;
+  readonly supportsResponseSchema: boolean;
+  readonly apiKeys: string[];
+  private baseUrl: string;
+
+  constructor(model?: string, baseUrl?: string) {
+    this.baseUrl = (baseUrl ?? process.env.OPENAI_BASE_URL ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
+    this.model = model ?? process.env.OPENAI_MODEL ?? "gpt-4o-mini";
+    this.apiKeys = keysFromEnv("OPENAI_API_KEY");
+    // Some local servers reject response_format; OPENAI_RESPONSE_SCHEMA=false falls back to tags
+    this.supportsResponseSchema = process.env.OPENAI_RESPONSE_SCHEMA !== "false";
+  }
+
+  missingConfiguration(): string | null {
+    // Local servers usually run without auth; only the hosted API needs a key
+    if (this.apiKeys.length > 0 || this.baseUrl !== DEFAULT_BASE_URL) return null;
+    return "Set OPENAI_API_KEY, or OPENAI_BASE_URL for a local OpenAI-compatible server.";
+  }
+
+  async generate(request: ModelRequest, apiKey: string | undefined): Promise<string> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: "user", content: request.prompt }],
+        temperature: 0,
+        ...(request.responseSchema
+          ? {
+              response_format: {
+                type: "json_schema",
+                json_schema: { name: "governor_decision", schema: request.responseSchema },
+              },
+            }
+          : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => "");
+      throw new ProviderError(
+        `${this.baseUrl} returned ${response.status} ${response.statusText}: ${detail}`,
+        response.status,
+        response.statusText
+      );
+    }
+
+    const data = (await response.json()) as ChatCompletionResponse;
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new ProviderError(`${this.baseUrl} returned no message content`);
+    }
+    return content;
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Deterministic offline provider
+ * Answers from drift.json alone so pipelines and demos can run without network access
+ */
+
+import { GovernorModelProvider, ModelRequest } from "./ModelProvider.js";
+
+export class StubProvider implements GovernorModelProvider {
+  readonly name = "stub";
+  readonly label = "Stub model";
+  readonly model = "stub";
+  readonly supportsResponseSchema = false;
+  readonly apiKeys: string[] = [];
+
+  missingConfiguration(): string | null {
+    return null;
+  }
+
+  async generate(request: ModelRequest): Promise<string> {
+    const drift = request.artifacts.drift as { diffs?: Array<{ breaking?: boolean }> } | undefined;
+    const diffs = Array.isArray(drift?.diffs) ? drift.diffs : [];
+    const breaking = diffs.filter((d) => d?.breaking === true).length;
+
+    const decision =
+      breaking > 0
+        ? {
+            decision: "escalate",
+            risk_level: "medium",
+            insight: `${breaking} breaking change(s) need a human ruling; the stub model does not judge them.`,
+            reasoning: [
+              `Offline stub evaluated ${diffs.length} change(s), ${breaking} breaking.`,
+              "Breaking changes are always escalated without a real model.",
+            ],
+            conditions: ["Review the breaking changes manually."],
+          }
+        : {
+            decision: "approve",
+            risk_level: "low",
+            insight: "No breaking changes were detected.",
+            reasoning: [`Offline stub evaluated ${diffs.length} change(s), none breaking.`],
+            conditions: [],
+          };
+
+    return `<reasoning>\nDeterministic stub response.\n</reasoning>\n\n<decision>\n${JSON.stringify(decision, null, 2)}\n</decision>`;
+  }
+}
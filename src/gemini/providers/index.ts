@@ -0,0 +1,27 @@
+/**
+ * Governor model provider factory
+ */
+
+import type { GovernorModelProvider } from "./ModelProvider.js";
+import { GeminiProvider } from "./GeminiProvider.js";
+import { OpenAICompatibleProvider } from "./OpenAICompatibleProvider.js";
+import { StubProvider } from "./StubProvider.js";
+
+export type { GovernorModelProvider, GovernorProviderName, ModelRequest } from "./ModelProvider.js";
+export { ProviderError } from "./ModelProvider.js";
+export { GeminiProvider } from "./GeminiProvider.js";
+export { OpenAICompatibleProvider } from "./OpenAICompatibleProvider.js";
+export { StubProvider } from "./StubProvider.js";
+
+export function createModelProvider(type: string, model?: string): GovernorModelProvider {
+  switch (type.toLowerCase()) {
+    case "gemini":
+      return new GeminiProvider(model);
+    case "openai":
+      return new OpenAICompatibleProvider(model);
+    case "stub":
+      return new StubProvider();
+    default:
+      throw new Error(`Unknown governor provider: ${type}`);
+  }
+}
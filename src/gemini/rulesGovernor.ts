@@ -0,0 +1,184 @@
+/**
+ * Deterministic rule-only governor.
+ * Derives a ruling from policy, drift, impact and intent without calling a model,
+ * for air-gapped CI where no provider is reachable.
+ */
+
+import type { DottoArtifacts } from "../engine/dotto.js";
+import { analyzeIntentAlignment } from "../engine/intent.js";
+import type { PolicyEvaluation } from "../policy/evaluator.js";
+import type { GovernorDecision } from "./governor.js";
+
+// Downstream node count at which a change counts as wide-reaching
+const WIDE_BLAST_RADIUS = 5;
+
+type DriftChange = {
+  type: string;
+  path: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+  breaking: boolean;
+};
+
+type DriftDiff = {
+  nodeId: string;
+  name: string;
+  changeType: string;
+  breaking: boolean;
+  changes: DriftChange[];
+};
+
+type AlignmentChange = {
+  type: string;
+  field: string;
+  from?: string;
+  to?: string;
+  breaking: boolean;
+};
+
+function readDiffs(drift: unknown): DriftDiff[] {
+  const diffs = (drift as { diffs?: unknown } | undefined)?.diffs;
+  if (!Array.isArray(diffs)) return [];
+
+  return diffs
+    .filter((d): d is Record<string, unknown> => !!d && typeof d === "object")
+    .map((d) => ({
+      nodeId: typeof d.nodeId === "string" ? d.nodeId : "",
+      name: typeof d.name === "string" ? d.name : String(d.nodeId ?? ""),
+      changeType: typeof d.changeType === "string" ? d.changeType : "modified",
+      breaking: d.breaking === true,
+      changes: Array.isArray(d.changes) ? (d.changes as DriftChange[]) : [],
+    }));
+}
+
+/**
+ * Flatten drift into the change shape analyzeIntentAlignment expects
+ */
+function alignmentChanges(diffs: DriftDiff[]): AlignmentChange[] {
+  const changes: AlignmentChange[] = [];
+  for (const diff of diffs) {
+    for (const change of diff.changes) {
+      changes.push({
+        type: change.type === "field_type_changed" ? "type_changed" : change.type,
+        field: change.path,
+        from: typeof change.oldValue === "string" ? change.oldValue : undefined,
+        to: typeof change.newValue === "string" ? change.newValue : undefined,
+        breaking: change.breaking === true,
+      });
+    }
+    // Removed schemas are breaking without any field-level change to point at
+    if (diff.breaking && !diff.changes.some((c) => c.breaking)) {
+      changes.push({ type: `schema_${diff.changeType}`, field: diff.name, breaking: true });
+    }
+  }
+  return changes;
+}
+
+function blastRadius(impact: unknown): number {
+  const obj = impact as
+    | {
+        summary?: { totalImpactedNodes?: unknown };
+        analyses?: Array<{ downstream?: Array<{ nodeId?: string }> }>;
+      }
+    | undefined;
+  if (typeof obj?.summary?.totalImpactedNodes === "number") {
+    return obj.summary.totalImpactedNodes;
+  }
+  const nodes = new Set<string>();
+  for (const analysis of obj?.analyses ?? []) {
+    for (const node of analysis.downstream ?? []) {
+      if (node.nodeId) nodes.add(node.nodeId);
+    }
+  }
+  return nodes.size;
+}
+
+function readIntents(intent: unknown): string[] {
+  const intents = (intent as { intents?: unknown } | undefined)?.intents;
+  return Array.isArray(intents) ? intents.filter((i): i is string => typeof i === "string") : [];
+}
+
+export function runRulesGovernor(
+  artifacts: DottoArtifacts,
+  evaluation: PolicyEvaluation
+): GovernorDecision {
+  const diffs = readDiffs(artifacts.drift);
+  const breakingDiffs = diffs.filter((d) => d.breaking);
+  const radius = blastRadius(artifacts.impact);
+  const wide = radius >= WIDE_BLAST_RADIUS;
+  const alignment = analyzeIntentAlignment(
+    readIntents(artifacts.intent),
+    alignmentChanges(breakingDiffs)
+  );
+
+  const allowed = new Set(
+    evaluation.fired.filter((f) => f.action === "allow").flatMap((f) => f.matched_nodes)
+  );
+  const allBreakingAllowed =
+    breakingDiffs.length > 0 && breakingDiffs.every((d) => allowed.has(d.nodeId));
+
+  const reasoning = [
+    "Rule-only governor: the ruling was derived deterministically, no model was consulted.",
+    `Drift: ${diffs.length} schema change(s), ${breakingDiffs.length} breaking` +
+      (breakingDiffs.length > 0 ? ` (${breakingDiffs.map((d) => d.name).join(", ")})` : ""),
+    `Blast radius: ${radius} downstream node(s)${wide ? `, at or above the ${WIDE_BLAST_RADIUS}-node threshold` : ""}`,
+    breakingDiffs.length > 0
+      ? `Intent alignment: ${alignment.status}` +
+        (alignment.uncoveredChanges.length > 0
+          ? ` (undeclared: ${alignment.uncoveredChanges.join(", ")})`
+          : "")
+      : "Intent alignment: not required, no breaking changes",
+    evaluation.fired.length > 0
+      ? `Policy: ${evaluation.fired.map((f) => `${f.rule_id} (${f.action})`).join(", ")}`
+      : "Policy: no rules matched",
+    "Precedent: no approved precedent matched this change",
+  ];
+
+  if (breakingDiffs.length === 0) {
+    return {
+      decision: "approve",
+      risk_level: wide ? "medium" : "low",
+      insight:
+        diffs.length === 0
+          ? "No schema changes were detected."
+          : `All ${diffs.length} schema change(s) are non-breaking.`,
+      reasoning,
+      conditions: wide ? [`Monitor the ${radius} downstream consumers after deployment.`] : [],
+    };
+  }
+
+  if (allBreakingAllowed && alignment.status === "ALIGNED") {
+    return {
+      decision: "approve",
+      risk_level: "medium",
+      insight: "Every breaking change is allowed by policy and covered by the declared intent.",
+      reasoning,
+      conditions: [`Coordinate the breaking change with the ${radius} downstream consumers.`],
+    };
+  }
+
+  if (alignment.status === "UNCLEAR" && wide) {
+    return {
+      decision: "block",
+      risk_level: "high",
+      insight: `Undeclared breaking changes reach ${radius} downstream nodes.`,
+      reasoning,
+      conditions: [
+        "Declare @intent for the breaking changes or reduce their blast radius, then re-run.",
+      ],
+    };
+  }
+
+  return {
+    decision: "escalate",
+    risk_level: wide || alignment.status !== "ALIGNED" ? "high" : "medium",
+    insight: `${breakingDiffs.length} breaking change(s) need a human ruling.`,
+    reasoning,
+    conditions: [
+      "Record a human ruling before deployment.",
+      ...(alignment.uncoveredChanges.length > 0
+        ? [`Declare @intent for: ${alignment.uncoveredChanges.join(", ")}`]
+        : []),
+    ],
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Deterministic policy evaluator for dotto governance.
+ *
+ * Matches each schema diff in drift.json against the rules in rules.json.
+ * A rule fires when every clause of its `match` block holds for at least one diff.
+ * Pure functions with no Node.js dependencies.
+ */
+
+export type PolicyAction = "allow" | "escalate" | "block";
+
+export type PolicyRule = {
+  id: string;
+  description?: string;
+  match: {
+    tags_any?: string[];
+    systems_any?: string[];
+    breaking?: boolean;
+  };
+  action: PolicyAction;
+  approvals_required?: number; // Distinct human approvers needed before a receipt verifies
+};
+
+export type PolicyDocument = {
+  rules: PolicyRule[];
+};
+
+export type FiredRule = {
+  rule_id: string;
+  action: PolicyAction;
+  description?: string;
+  matched_nodes: string[];
+  approvals_required?: number;
+};
+
+export type PolicyEvaluation = {
+  fired: FiredRule[];
+  // Strictest forbidding action among fired rules, or null when the governor may proceed
+  ruling: "block" | "escalate" | null;
+  // Approver quorum for this change: the largest approvals_required among fired rules, or 0
+  approvals_required: number;
+};
+
+type DiffSubject = {
+  nodeId: string;
+  breaking: boolean;
+  tags: string[];
+  system?: string;
+};
+
+const ACTIONS: PolicyAction[] = ["allow", "escalate", "block"];
+
+function asStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+}
+
+/**
+ * Validate and normalise a parsed rules.json document.
+ * Throws on malformed rules so a broken policy never silently allows a change.
+ */
+export function parsePolicy(policy: unknown): PolicyDocument {
+  if (!policy || typeof policy !== "object") {
+    throw new Error("Policy must be an object with a rules array");
+  }
+  const rawRules = (policy as Record<string, unknown>).rules;
+  if (!Array.isArray(rawRules)) {
+    throw new Error("Policy must be an object with a rules array");
+  }
+
+  const rules: PolicyRule[] = rawRules.map((raw, index) => {
+    const r = (raw ?? {}) as Record<string, unknown>;
+    const id = typeof r.id === "string" ? r.id : `rule_${index}`;
+    const action = r.action as PolicyAction;
+    if (!ACTIONS.includes(action)) {
+      throw new Error(`Policy rule "${id}" has unknown action: ${String(r.action)}`);
+    }
+    const approvals = r.approvals_required;
+    if (
+      approvals !== undefined &&
+      (typeof approvals !== "number" || !Number.isInteger(approvals) || approvals < 1)
+    ) {
+      throw new Error(`Policy rule "${id}" approvals_required must be a positive integer`);
+    }
+    const match = (r.match ?? {}) as Record<string, unknown>;
+    return {
+      id,
+      description: typeof r.description === "string" ? r.description : undefined,
+      match: {
+        tags_any: match.tags_any !== undefined ? asStringArray(match.tags_any) : undefined,
+        systems_any: match.systems_any !== undefined ? asStringArray(match.systems_any) : undefined,
+        breaking: typeof match.breaking === "boolean" ? match.breaking : undefined,
+      },
+      action,
+      approvals_required: approvals,
+    };
+  });
+
+  return { rules };
+}
+
+/**
+ * Look up tags/system for a node in graph.json, used when drift.json predates annotations.
+ */
+function graphNodeMetadata(graph: unknown, nodeId: string): Record<string, unknown> | undefined {
+  if (!graph || typeof graph !== "object") return undefined;
+  const nodes = (graph as Record<string, unknown>).nodes;
+  if (!nodes || typeof nodes !== "object") return undefined;
+  const node = (nodes as Record<string, unknown>)[nodeId];
+  if (!node || typeof node !== "object") return undefined;
+  const metadata = (node as Record<string, unknown>).metadata;
+  return metadata && typeof metadata === "object"
+    ? (metadata as Record<string, unknown>)
+    : undefined;
+}
+
+function extractSubjects(drift: unknown, graph?: unknown): DiffSubject[] {
+  if (!drift || typeof drift !== "object") return [];
+  const diffs = (drift as Record<string, unknown>).diffs;
+  if (!Array.isArray(diffs)) return [];
+
+  const subjects: DiffSubject[] = [];
+  for (const diff of diffs) {
+    if (!diff || typeof diff !== "object") continue;
+    const d = diff as Record<string, unknown>;
+    const nodeId = typeof d.nodeId === "string" ? d.nodeId : "";
+    const metadata = graphNodeMetadata(graph, nodeId);
+
+    const tags = new Set([...asStringArray(d.tags), ...asStringArray(metadata?.tags)]);
+    const system =
+      typeof d.system === "string"
+        ? d.system
+        : typeof metadata?.system === "string"
+          ? metadata.system
+          : undefined;
+
+    subjects.push({
+      nodeId,
+      breaking: d.breaking === true,
+      tags: [...tags].map((t) => t.toLowerCase()),
+      system: system?.toLowerCase(),
+    });
+  }
+  return subjects;
+}
+
+function ruleMatches(rule: PolicyRule, subject: DiffSubject): boolean {
+  const { tags_any, systems_any, breaking } = rule.match;
+
+  if (tags_any && !tags_any.some((t) => subject.tags.includes(t.toLowerCase()))) {
+    return false;
+  }
+  if (
+    systems_any &&
+    (!subject.system || !systems_any.some((s) => s.toLowerCase() === subject.system))
+  ) {
+    return false;
+  }
+  if (breaking !== undefined && subject.breaking !== breaking) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Evaluate a policy against drift.json.
+ * `graph` is optional and only consulted for node tags/system missing from the drift entries.
+ */
+export function evaluatePolicy(policy: unknown, drift: unknown, graph?: unknown): PolicyEvaluation {
+  const { rules } = parsePolicy(policy);
+  const subjects = extractSubjects(drift, graph);
+
+  const fired: FiredRule[] = [];
+  for (const rule of rules) {
+    const matched = subjects.filter((s) => ruleMatches(rule, s)).map((s) => s.nodeId);
+    if (matched.length > 0) {
+      fired.push({
+        rule_id: rule.id,
+        action: rule.action,
+        description: rule.description,
+        matched_nodes: [...new Set(matched)],
+        ...(rule.approvals_required ? { approvals_required: rule.approvals_required } : {}),
+      });
+    }
+  }
+
+  let ruling: PolicyEvaluation["ruling"] = null;
+  if (fired.some((f) => f.action === "block")) ruling = "block";
+  else if (fired.some((f) => f.action === "escalate")) ruling = "escalate";
+
+  const approvals_required = Math.max(0, ...fired.map((f) => f.approvals_required ?? 0));
+
+  return { fired, ruling, approvals_required };
+}
@@ -9,21 +9,35 @@ import {
   loadArtifacts,
   GraphEngine,
   ImpactAnalyzer,
+  GitScanner,
+  SchemaHistory,
 } from "./engine/dotto.js";
+import { DEFAULT_HISTORY_MAX_COMMITS } from "./engine/analysis/SchemaHistory.js";
 import {
   runGovernor,
   GovernorDecision,
+  GovernorMode,
   extractDriftVectors,
   DriftVector,
 } from "./gemini/governor.js";
+import type { GovernorProviderName } from "./gemini/providers/index.js";
 import {
   createReceipt,
   verifyReceipt,
   formatReceiptForDisplay,
   upgradeLegacyReceipt,
-  anchorReceiptToHedera,
+  anchorReceipt,
+  revokeReceipt,
+  receiptSigningData,
   AuthorizationReceipt,
 } from "./crypto/receipt.js";
+import { hasSigningKeyInEnv, loadPublicKey } from "./crypto/signing.js";
+import { ReceiptApproval, tallyApprovals } from "./crypto/approvals.js";
+import { loadKeyRegistry } from "./crypto/keyRegistry.js";
+import { evaluatePolicy } from "./policy/evaluator.js";
+import { EpochStore, proofBackendFromEnv } from "./engine/proof/index.js";
+import { deployContextFromArgs, parseConditions, parseFeatureFlags } from "./crypto/conditions.js";
+import { currentGitBinding, loadCheckoutBinding } from "./crypto/binding.js";
 
 type StoredDecision = {
   timestamp: string;
@@ -44,6 +58,10 @@ async function generateAuthorizationReceipt(
   changeId: string,
   artifacts: unknown
 ): Promise<AuthorizationReceipt> {
+  // Bind the receipt to the commit and repository it was issued for
+  const { commit_sha, repository } = currentGitBinding();
+  const baseRef = (artifacts as { drift?: { baseRef?: unknown } } | null)?.drift?.baseRef;
+
   const receipt = createReceipt({
     change_id: changeId,
     ruling: decision.decision,
@@ -51,11 +69,21 @@ async function generateAuthorizationReceipt(
     auto_authorized: decision.auto_authorized,
     artifacts,
     precedent_match: decision.precedent_match,
+    policy_rules_fired: decision.policy_rules_fired,
+    conditions: parseConditions(decision.conditions),
+    commit_sha,
+    repository,
+    base_ref: typeof baseRef === "string" ? baseRef : undefined,
   });
 
-  // Anchor to Hedera if configured (for approved decisions)
-  if (decision.decision === "approve") {
-    return await anchorReceiptToHedera(receipt);
+  // Anchor through the configured proof backend (for approved decisions)
+  const backend = proofBackendFromEnv();
+  if (decision.decision === "approve" && backend.name !== "none") {
+    try {
+      return await anchorReceipt(receipt, backend);
+    } finally {
+      await backend.close?.();
+    }
   }
 
   return receipt;
@@ -158,6 +186,9 @@ async function runOnce(): Promise<number> {
       artifactsDir,
       policyPath,
       memoryPath,
+      governor: (getArgValue("--governor") as GovernorMode | null) ?? undefined,
+      provider: (getArgValue("--provider") as GovernorProviderName | null) ?? undefined,
+      model: getArgValue("--model") ?? undefined,
     },
     artifacts,
     { change_id: changeId }
@@ -359,6 +390,7 @@ async function startServer(): Promise<void> {
           const body = (await readJsonBody(req)) as {
             artifactsDir?: string;
             baseRef?: string;
+            targetBranch?: string;
             change_id?: string;
             intent?: unknown;
           };
@@ -369,6 +401,7 @@ async function startServer(): Promise<void> {
           await generateArtifacts({
             artifactsDir,
             baseRef: body.baseRef,
+            targetBranch: body.targetBranch,
             change_id: changeId,
             intent: body.intent,
           });
@@ -402,6 +435,8 @@ async function startServer(): Promise<void> {
           artifactsDir?: string;
           policyPath?: string;
           memoryPath?: string;
+          governor?: GovernorMode;
+          provider?: GovernorProviderName;
           model?: string;
           change_id?: string;
           // Simulated data from viewer (overrides file-based artifacts)
@@ -483,6 +518,8 @@ async function startServer(): Promise<void> {
             artifactsDir,
             policyPath,
             memoryPath,
+            governor: body.governor,
+            provider: body.provider,
             model: body.model,
           },
           artifacts,
@@ -547,11 +584,13 @@ async function startServer(): Promise<void> {
         const body = (await readJsonBody(req)) as {
           memoryPath?: string;
           artifactsDir?: string;
+          policyPath?: string;
           change_id: string;
           governor: {
             decision: "approve" | "block" | "escalate";
             risk_level: "low" | "medium" | "high";
             reasoning: string[];
+            conditions?: string[];
           };
           human: {
             outcome: "accepted" | "overridden" | "modified";
@@ -616,12 +655,19 @@ async function startServer(): Promise<void> {
         // Load artifacts to generate receipt (with Hedera anchoring if configured)
         try {
           const artifacts = await loadArtifacts(artifactsDir);
+
+          // Re-evaluate policy so the receipt carries the approver quorum of the fired rules
+          const policyPath = body.policyPath ?? path.resolve("src/policy/rules.json");
+          const policy = JSON.parse(await readFile(policyPath, "utf8"));
+          const evaluation = evaluatePolicy(policy, artifacts.drift, artifacts.graph);
+
           const receipt = await generateAuthorizationReceipt(
             {
               decision: finalRuling,
               risk_level: body.governor.risk_level,
               reasoning: body.governor.reasoning,
-              conditions: [],
+              conditions: body.governor.conditions ?? [],
+              policy_rules_fired: evaluation.fired,
             },
             body.change_id,
             artifacts
@@ -900,6 +946,9 @@ async function startServer(): Promise<void> {
       if (req.method === "POST" && req.url === "/verify-receipt") {
         const body = (await readJsonBody(req)) as {
           receipt?: Record<string, unknown>;
+          artifactsDir?: string;
+          environment?: string;
+          feature_flags?: Record<string, boolean> | string;
         };
 
         // Handle legacy v1.0 receipts by upgrading them
@@ -913,11 +962,26 @@ async function startServer(): Promise<void> {
           }
         }
 
-        // Use the crypto module for verification
-        const result = verifyReceipt(receipt, { require_approval: true });
+        // Use the crypto module for verification, bound to this checkout like enforce
+        const result = verifyReceipt(receipt, {
+          require_approval: true,
+          binding: await loadCheckoutBinding(body?.artifactsDir ?? path.resolve("artifacts")),
+          context: {
+            environment: body?.environment,
+            feature_flags:
+              typeof body?.feature_flags === "string"
+                ? parseFeatureFlags([body.feature_flags])
+                : body?.feature_flags,
+          },
+        });
 
         if (!result.valid) {
-          const statusCode = result.reason === "not_approved" ? 403 : 400;
+          const statusCode =
+            result.reason === "not_approved" ||
+            result.reason === "quorum_not_met" ||
+            result.reason === "condition_unmet"
+              ? 403
+              : 400;
           res.writeHead(statusCode, { "content-type": "application/json" });
           res.end(JSON.stringify(result));
           return;
@@ -936,6 +1000,306 @@ async function startServer(): Promise<void> {
         return;
       }
 
+      // Add one approver's signature to the receipt in the artifacts directory
+      if (req.method === "POST" && req.url === "/receipts/approve") {
+        const body = (await readJsonBody(req)) as {
+          artifactsDir?: string;
+          approval?: ReceiptApproval;
+        };
+
+        const approval = body?.approval;
+        if (!approval?.approver || !approval.kid || !approval.signature) {
+          res.writeHead(400, { "content-type": "application/json" });
+          res.end(
+            JSON.stringify({
+              error: "invalid_request",
+              message:
+                "approval with approver, kid, algorithm, signed_at and signature is required",
+            })
+          );
+          return;
+        }
+
+        const artifactsDir = body.artifactsDir ?? path.resolve("artifacts");
+        let receipt: AuthorizationReceipt;
+        try {
+          const raw = await readFile(path.join(artifactsDir, "authorization-receipt.json"), "utf8");
+          receipt = JSON.parse(raw) as AuthorizationReceipt;
+        } catch {
+          res.writeHead(404, { "content-type": "application/json" });
+          res.end(
+            JSON.stringify({ error: "no_receipt", message: `No receipt found in ${artifactsDir}` })
+          );
+          return;
+        }
+
+        // Reject approvals that would not count, so the receipt only collects valid ones
+        const tally = tallyApprovals([approval], receiptSigningData(receipt), loadKeyRegistry());
+        if (tally.approvers.length === 0) {
+          res.writeHead(403, { "content-type": "application/json" });
+          res.end(
+            JSON.stringify({
+              error: "invalid_approval",
+              message: tally.rejected[0]?.message ?? "Approval could not be verified.",
+            })
+          );
+          return;
+        }
+
+        receipt.approvals = [
+          ...(receipt.approvals ?? []).filter((a) => a.approver !== approval.approver),
+          approval,
+        ];
+        await writeAuthorizationReceipt(artifactsDir, receipt);
+
+        const approvers = receipt.approvals.map((a) => a.approver);
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(
+          JSON.stringify({
+            ok: true,
+            approvers,
+            approvals_required: receipt.approvals_required ?? 0,
+            quorum_met: approvers.length >= (receipt.approvals_required ?? 0),
+          })
+        );
+        return;
+      }
+
+      // Revoke an issued receipt before it expires
+      if (req.method === "POST" && req.url === "/receipts/revoke") {
+        const body = (await readJsonBody(req)) as {
+          receipt?: AuthorizationReceipt;
+          artifactsDir?: string;
+          revoked_by?: string;
+          reason?: string;
+        };
+
+        if (!body?.revoked_by || !body.reason) {
+          res.writeHead(400, { "content-type": "application/json" });
+          res.end(
+            JSON.stringify({
+              error: "invalid_request",
+              message: "revoked_by and reason are required",
+            })
+          );
+          return;
+        }
+
+        if (!hasSigningKeyInEnv()) {
+          res.writeHead(500, { "content-type": "application/json" });
+          res.end(
+            JSON.stringify({
+              error: "no_signing_key",
+              message:
+                "Revocation lists are never signed with the demo key; set DOTTO_SIGNING_PRIVATE_KEY or DOTTO_SIGNING_KEY",
+            })
+          );
+          return;
+        }
+
+        let receipt = body.receipt;
+        if (!receipt) {
+          const artifactsDir = body.artifactsDir ?? path.resolve("artifacts");
+          try {
+            const raw = await readFile(
+              path.join(artifactsDir, "authorization-receipt.json"),
+              "utf8"
+            );
+            receipt = JSON.parse(raw) as AuthorizationReceipt;
+          } catch {
+            res.writeHead(404, { "content-type": "application/json" });
+            res.end(
+              JSON.stringify({
+                error: "no_receipt",
+                message: `No receipt given and none found in ${artifactsDir}`,
+              })
+            );
+            return;
+          }
+        }
+
+        if (!receipt.signature || !receipt.change_id) {
+          res.writeHead(400, { "content-type": "application/json" });
+          res.end(
+            JSON.stringify({
+              error: "invalid_request",
+              message: "receipt must have a change_id and signature",
+            })
+          );
+          return;
+        }
+
+        // Anchor the revocation through the configured proof backend, if any
+        const backend = proofBackendFromEnv();
+        let proof;
+        if (backend.name !== "none") {
+          try {
+            proof = await backend.record({
+              nodeId: `receipt:${receipt.change_id}`,
+              eventType: "deleted",
+              hash: receipt.signature,
+              metadata: {
+                type: "receipt-revocation",
+                revoked_by: body.revoked_by,
+                revoked_by_self_asserted: true,
+                reason: body.reason,
+              },
+              timestamp: new Date().toISOString(),
+            });
+          } catch (err) {
+            console.error("Failed to anchor revocation:", err);
+          } finally {
+            await backend.close?.();
+          }
+        }
+
+        // revoked_by comes from the request body unauthenticated, so it is labelled as such
+        const entry = revokeReceipt(receipt, {
+          revoked_by: body.revoked_by,
+          revoked_by_self_asserted: true,
+          reason: body.reason,
+          proof,
+        });
+
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(JSON.stringify({ ok: true, revocation: entry }));
+        return;
+      }
+
+      // Merkle inclusion proof for a node's latest change (artifacts/epochs.json).
+      // The response verifies standalone: dotto-verify --inclusion <file>
+      if (req.method === "GET" && pathname.startsWith("/proofs/")) {
+        let nodeId: string;
+        try {
+          nodeId = decodeURIComponent(pathname.replace("/proofs/", ""));
+        } catch {
+          res.writeHead(400, { "content-type": "application/json" });
+          res.end(JSON.stringify({ error: "invalid_request" }));
+          return;
+        }
+
+        const store = new EpochStore(path.join(path.resolve("artifacts"), "epochs.json"));
+        let inclusion = nodeId ? await store.findInclusion(nodeId) : null;
+
+        // Seal the open epoch if its interval passed since the last crawl
+        if (inclusion?.status === "pending") {
+          const backend = proofBackendFromEnv();
+          try {
+            if (await store.sealIfDue(backend)) {
+              inclusion = await store.findInclusion(nodeId);
+            }
+          } finally {
+            await backend.close?.();
+          }
+        }
+
+        if (!inclusion) {
+          res.writeHead(404, { "content-type": "application/json" });
+          res.end(
+            JSON.stringify({
+              error: "not_found",
+              message: `No recorded change for ${nodeId}`,
+            })
+          );
+          return;
+        }
+
+        if (inclusion.status === "pending" || !inclusion.epoch) {
+          // Recorded, but its epoch has not been sealed yet
+          res.writeHead(202, { "content-type": "application/json" });
+          res.end(JSON.stringify({ nodeId, status: "pending", artifact: inclusion.artifact }));
+          return;
+        }
+
+        const { epoch } = inclusion;
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(
+          JSON.stringify({
+            nodeId,
+            status: "included",
+            artifact: inclusion.artifact,
+            epoch: {
+              epoch_id: epoch.epoch_id,
+              timestamp: epoch.timestamp,
+              merkle_root: epoch.merkle_root,
+              artifact_count: epoch.artifacts.length,
+              proof: epoch.proof ?? null,
+            },
+            merkle_proof: inclusion.merkle_proof,
+            verified: inclusion.verified,
+          })
+        );
+        return;
+      }
+
+      // Schema change timeline for a node: GET /history/:nodeId?from=&to=&max_commits=
+      if (req.method === "GET" && pathname.startsWith("/history/")) {
+        let nodeId: string;
+        try {
+          nodeId = decodeURIComponent(pathname.replace("/history/", ""));
+        } catch {
+          res.writeHead(400, { "content-type": "application/json" });
+          res.end(JSON.stringify({ error: "invalid_request" }));
+          return;
+        }
+
+        const requestedCommits = Number(
+          parsedUrl?.searchParams.get("max_commits") ?? DEFAULT_HISTORY_MAX_COMMITS
+        );
+        if (!nodeId || !Number.isInteger(requestedCommits) || requestedCommits < 1) {
+          res.writeHead(400, { "content-type": "application/json" });
+          res.end(
+            JSON.stringify({
+              error: "invalid_request",
+              message: "Expected /history/:nodeId with a positive integer max_commits",
+            })
+          );
+          return;
+        }
+
+        // Every commit is a full rescan, so cap what one request can ask for
+        const maxCommits = Math.min(
+          requestedCommits,
+          Number(process.env.DOTTO_HISTORY_MAX_COMMITS) || DEFAULT_HISTORY_MAX_COMMITS
+        );
+
+        const history = new SchemaHistory(new GitScanner(process.cwd()), {
+          decisions: SchemaHistory.loadDecisions(path.resolve("src/memory/decisions.json")),
+        });
+
+        let result;
+        try {
+          result = await history.build({
+            from: parsedUrl?.searchParams.get("from") ?? undefined,
+            to: parsedUrl?.searchParams.get("to") ?? undefined,
+            maxCommits,
+            nodeId,
+          });
+        } catch (err) {
+          res.writeHead(400, { "content-type": "application/json" });
+          res.end(
+            JSON.stringify({
+              error: "invalid_request",
+              message: err instanceof Error ? err.message : String(err),
+            })
+          );
+          return;
+        }
+
+        res.writeHead(200, { "content-type": "application/json" });
+        res.end(
+          JSON.stringify({
+            nodeId,
+            from: result.from,
+            to: result.to,
+            commitsScanned: result.commitsScanned,
+            truncated: result.truncated,
+            history: Object.values(result.nodes).flat(),
+          })
+        );
+        return;
+      }
+
       res.writeHead(404, { "content-type": "application/json" });
       res.end(JSON.stringify({ error: "not_found" }));
     } catch (err) {
@@ -979,13 +1343,42 @@ async function runEnforce(): Promise<number> {
   }
 
   // Use the crypto module for verification
-  const result = verifyReceipt(receipt, { require_approval: true });
+  const publicKeyPath = getArgValue("--public-key");
+  const result = verifyReceipt(receipt, {
+    require_approval: true,
+    public_key: publicKeyPath ? loadPublicKey(path.resolve(publicKeyPath)) : undefined,
+    binding: await loadCheckoutBinding(artifactsDir),
+    allow_unbound: process.argv.includes("--allow-unbound") || undefined,
+    context: deployContextFromArgs(process.argv),
+  });
 
   if (!result.valid) {
     if (result.reason === "invalid_signature") {
       process.stdout.write("  ❌ Invalid receipt signature\n\n");
+      process.stdout.write(`  ${result.message}\n`);
       process.stdout.write("  Receipt has been tampered with or is corrupted.\n");
       process.stdout.write("  Re-run governance to obtain a valid receipt.\n\n");
+    } else if (result.reason === "revoked_key" || result.reason === "unknown_key") {
+      process.stdout.write("  ❌ Untrusted signing key\n\n");
+      process.stdout.write(`  ${result.message}\n`);
+      process.stdout.write("  Re-run governance with an active key to obtain a new receipt.\n\n");
+    } else if (result.reason === "condition_unmet") {
+      process.stdout.write("  ❌ Receipt conditions not met\n\n");
+      process.stdout.write(`  ${result.message}\n`);
+      process.stdout.write("  Deploy where and when the receipt allows, or re-run governance.\n\n");
+    } else if (result.reason === "quorum_not_met") {
+      process.stdout.write("  ⚠ Awaiting approvals\n\n");
+      process.stdout.write(`  ${result.message}\n`);
+      process.stdout.write("  Each required approver must sign the receipt (npm run approve).\n\n");
+    } else if (result.reason === "revoked") {
+      process.stdout.write("  ❌ Receipt revoked\n\n");
+      process.stdout.write(`  ${result.message}\n`);
+      process.stdout.write("  Re-run governance to obtain a new ruling.\n\n");
+    } else if (result.reason === "commit_mismatch" || result.reason === "artifact_mismatch") {
+      process.stdout.write("  ❌ Receipt does not match this checkout\n\n");
+      process.stdout.write(`  ${result.message}\n`);
+      process.stdout.write("  A receipt only authorizes the exact change it was issued for.\n");
+      process.stdout.write("  Re-run governance on this commit to obtain a new receipt.\n\n");
     } else if (result.reason === "expired") {
       process.stdout.write("  ❌ Receipt expired\n\n");
       process.stdout.write(`  Expired at: ${receipt.expires_at}\n`);
@@ -291,6 +291,7 @@ function App() {
             decision: pipelineDecision.decision,
             risk_level: pipelineDecision.risk_level,
             reasoning: pipelineDecision.reasoning,
+            conditions: pipelineDecision.conditions,
           },
           human: {
             outcome,
@@ -396,6 +396,7 @@ export default function AnalysisView({
             decision: decision.decision,
             risk_level: decision.risk_level,
             reasoning: decision.reasoning,
+            conditions: decision.conditions,
           },
           human: {
             outcome,
@@ -663,6 +663,7 @@ export default function AnalysisViewApple({
             decision: decision.decision,
             risk_level: decision.risk_level,
             reasoning: decision.reasoning,
+            conditions: decision.conditions,
           },
           human: {
             outcome,
@@ -2,6 +2,8 @@ export interface SchemaChange {
   type:
     | "field_added"
     | "field_removed"
+    | "field_renamed"
+    | "schema_renamed"
     | "field_type_changed"
     | "field_required_changed"
     | "intent_changed"
@@ -11,15 +13,17 @@ export interface SchemaChange {
   newValue?: unknown;
   breaking: boolean;
   description: string;
+  confidence?: number;
 }
 
 export interface SchemaDiff {
   nodeId: string;
   name: string;
   type: string;
-  changeType: "added" | "removed" | "modified" | "unchanged";
+  changeType: "added" | "removed" | "modified" | "renamed" | "unchanged";
   breaking: boolean;
   changes: SchemaChange[];
+  previousNodeId?: string;
   oldVersion?: unknown;
   newVersion?: unknown;
 }